@@ -1,5 +1,13 @@
+import {
+  ExecutionError,
+  ExecutionLoading,
+  ExecutionView,
+} from '@/features/executions/components/execution';
+import { prefetchExecution } from '@/features/executions/server/prefetch';
 import { requireAuth } from '@/lib/auth-utils';
-import React from 'react';
+import { HydrateClient } from '@/trpc/server';
+import React, { Suspense } from 'react';
+import { ErrorBoundary } from 'react-error-boundary';
 
 interface PageProps {
   params: Promise<{
@@ -11,7 +19,17 @@ async function ExecutionDetailPage({ params }: PageProps) {
   await requireAuth();
 
   const { executionId } = await params;
-  return <div>Execution id: {executionId}</div>;
+  prefetchExecution(executionId);
+
+  return (
+    <HydrateClient>
+      <ErrorBoundary fallback={<ExecutionError />}>
+        <Suspense fallback={<ExecutionLoading />}>
+          <ExecutionView executionId={executionId} />
+        </Suspense>
+      </ErrorBoundary>
+    </HydrateClient>
+  );
 }
 
 export default ExecutionDetailPage;
@@ -1,10 +1,39 @@
+import { prefetchExecutions } from '@/features/executions/server/prefetch';
 import { requireAuth } from '@/lib/auth-utils';
-import React from 'react';
+import { HydrateClient } from '@/trpc/server';
+import { ErrorBoundary } from 'react-error-boundary';
+import React, { Suspense } from 'react';
+import {
+  ExecutionsContainer,
+  ExecutionsError,
+  ExecutionsList,
+  ExecutionsLoading,
+} from '@/features/executions/components/executions';
+import type { SearchParams } from 'nuqs/server';
+import { executionsParamsLoader } from '@/features/executions/server/params-loader';
 
-async function ExecutionsPage() {
+type Props = {
+  searchParams: Promise<SearchParams>;
+};
+
+async function ExecutionsPage({ searchParams }: Props) {
   await requireAuth();
 
-  return <div>Executions</div>;
+  const params = await executionsParamsLoader(searchParams);
+
+  prefetchExecutions(params);
+
+  return (
+    <ExecutionsContainer>
+      <HydrateClient>
+        <ErrorBoundary fallback={<ExecutionsError />}>
+          <Suspense fallback={<ExecutionsLoading />}>
+            <ExecutionsList />
+          </Suspense>
+        </ErrorBoundary>
+      </HydrateClient>
+    </ExecutionsContainer>
+  );
 }
 
 export default ExecutionsPage;
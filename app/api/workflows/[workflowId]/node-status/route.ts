@@ -0,0 +1,65 @@
+import { subscribeToNodeStatus } from '@/features/executions/lib/node-status';
+import { auth } from '@/lib/auth';
+import prisma from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{
+    workflowId: string;
+  }>;
+}
+
+/**
+ * Server-sent events stream of node status updates, used by the editor when
+ * Inngest realtime is unavailable
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { workflowId } = await params;
+
+  const workflow = await prisma.workflow.findFirst({
+    where: { id: workflowId, userId: session.user.id },
+    select: { id: true },
+  });
+
+  if (!workflow) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      unsubscribe = subscribeToNodeStatus(workflowId, (message) => {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(message)}\n\n`)
+        );
+      });
+
+      request.signal.addEventListener('abort', () => {
+        unsubscribe();
+        controller.close();
+      });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
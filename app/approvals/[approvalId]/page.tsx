@@ -0,0 +1,60 @@
+import {
+  ApprovalError,
+  ApprovalLoading,
+  ApprovalView,
+} from '@/features/approvals/components/approval';
+import { prefetchApproval } from '@/features/approvals/server/prefetch';
+import { APPROVAL_OUTPUTS } from '@/config/constants';
+import type { ApprovalDecision } from '@/features/executions/lib/approvals';
+import AuthLayout from '@/features/auth/components/auth-layout';
+import { HydrateClient } from '@/trpc/server';
+import { notFound } from 'next/navigation';
+import React, { Suspense } from 'react';
+import { ErrorBoundary } from 'react-error-boundary';
+
+interface PageProps {
+  params: Promise<{
+    approvalId: string;
+  }>;
+  searchParams: Promise<{
+    decision?: string;
+    token?: string;
+  }>;
+}
+
+const decisions: string[] = Object.values(APPROVAL_OUTPUTS);
+
+// Public: the signed link is checked instead of a session
+async function ApprovalPage({ params, searchParams }: PageProps) {
+  const { approvalId } = await params;
+  const { decision, token } = await searchParams;
+
+  if (!decision || !decisions.includes(decision) || !token) {
+    notFound();
+  }
+
+  const link = {
+    id: approvalId,
+    decision: decision as ApprovalDecision,
+    token,
+  };
+  prefetchApproval(link);
+
+  return (
+    <AuthLayout>
+      <HydrateClient>
+        <ErrorBoundary fallback={<ApprovalError />}>
+          <Suspense fallback={<ApprovalLoading />}>
+            <ApprovalView
+              approvalId={link.id}
+              decision={link.decision}
+              token={link.token}
+            />
+          </Suspense>
+        </ErrorBoundary>
+      </HydrateClient>
+    </AuthLayout>
+  );
+}
+
+export default ApprovalPage;
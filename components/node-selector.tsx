@@ -2,7 +2,19 @@
 
 import { createId } from '@paralleldrive/cuid2';
 import { useReactFlow } from '@xyflow/react';
-import { GlobeIcon, MousePointerIcon } from 'lucide-react';
+import {
+  GlobeIcon,
+  HourglassIcon,
+  LogInIcon,
+  MergeIcon,
+  MousePointerIcon,
+  RepeatIcon,
+  RouteIcon,
+  SirenIcon,
+  SplitIcon,
+  UserCheckIcon,
+  WorkflowIcon,
+} from 'lucide-react';
 import { ComponentType, ReactNode, useCallback } from 'react';
 import { toast } from 'sonner';
 import {
@@ -14,6 +26,10 @@ import {
   SheetTrigger,
 } from '@/components/ui/sheet';
 import { NodeType } from '@/lib/generated/prisma/enums';
+import {
+  getDefaultVariableName,
+  getVariableNames,
+} from '@/features/workflows/lib/variable-names';
 import { Separator } from './ui/separator';
 
 export type NodeTypeOption = {
@@ -31,6 +47,20 @@ const triggerNodes: NodeTypeOption[] = [
       'Runs the flow on clicking a button. Good for getting started quickly.',
     icon: MousePointerIcon,
   },
+  {
+    type: NodeType.ERROR_TRIGGER,
+    label: 'Error trigger',
+    description:
+      'Runs the flow when a workflow that uses it as error workflow fails.',
+    icon: SirenIcon,
+  },
+  {
+    type: NodeType.EXECUTE_WORKFLOW_TRIGGER,
+    label: 'When called by a workflow',
+    description:
+      'Runs the flow when an Execute Workflow node of another flow calls it.',
+    icon: LogInIcon,
+  },
 ];
 
 const executionNodes: NodeTypeOption[] = [
@@ -40,8 +70,59 @@ const executionNodes: NodeTypeOption[] = [
     description: 'Makes an HTTP request',
     icon: GlobeIcon,
   },
+  {
+    type: NodeType.IF,
+    label: 'If',
+    description: 'Routes data to true or false based on conditions',
+    icon: SplitIcon,
+  },
+  {
+    type: NodeType.SWITCH,
+    label: 'Switch',
+    description: 'Routes data to one of several outputs',
+    icon: RouteIcon,
+  },
+  {
+    type: NodeType.MERGE,
+    label: 'Merge',
+    description: 'Waits for several branches and combines their data',
+    icon: MergeIcon,
+  },
+  {
+    type: NodeType.LOOP_OVER_ITEMS,
+    label: 'Loop Over Items',
+    description: 'Runs the next nodes once per batch of items of a list',
+    icon: RepeatIcon,
+  },
+  {
+    type: NodeType.WAIT,
+    label: 'Wait',
+    description: 'Pauses the flow for a while or until a date',
+    icon: HourglassIcon,
+  },
+  {
+    type: NodeType.APPROVAL,
+    label: 'Approval',
+    description: 'Pauses the flow until someone approves or rejects it',
+    icon: UserCheckIcon,
+  },
+  {
+    type: NodeType.EXECUTE_WORKFLOW,
+    label: 'Execute Workflow',
+    description: 'Runs another workflow, optionally waiting for its result',
+    icon: WorkflowIcon,
+  },
 ];
 
+/**
+ * Look up the label and icon used for a node type in the selector
+ */
+export const getNodeTypeOption = (type: string) => {
+  return [...triggerNodes, ...executionNodes].find(
+    (option) => option.type === type
+  );
+};
+
 interface NodeSelectorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -69,6 +150,32 @@ export function NodeSelector({
         }
       }
 
+      if (selection.type === NodeType.ERROR_TRIGGER) {
+        const nodes = getNodes();
+        const hasErrorTrigger = nodes.some(
+          (node) => node.type === NodeType.ERROR_TRIGGER
+        );
+
+        if (hasErrorTrigger) {
+          toast.error('Only one error trigger is allowed per workflow');
+          return;
+        }
+      }
+
+      if (selection.type === NodeType.EXECUTE_WORKFLOW_TRIGGER) {
+        const nodes = getNodes();
+        const hasExecuteWorkflowTrigger = nodes.some(
+          (node) => node.type === NodeType.EXECUTE_WORKFLOW_TRIGGER
+        );
+
+        if (hasExecuteWorkflowTrigger) {
+          toast.error(
+            'Only one Execute Workflow trigger is allowed per workflow'
+          );
+          return;
+        }
+      }
+
       setNodes((nodes) => {
         const hasInitialTrigger = nodes.some(
           (node) => node.type === NodeType.INITIAL
@@ -82,18 +189,22 @@ export function NodeSelector({
           y: centerY + (Math.random() - 0.5) * 200,
         });
 
+        // The placeholder is replaced, its name is free again
+        const otherNodes = hasInitialTrigger ? [] : nodes;
+
         const newNode = {
           id: createId(),
-          data: {},
+          data: {
+            variableName: getDefaultVariableName(
+              selection.type,
+              getVariableNames(otherNodes).values()
+            ),
+          },
           position: flowPosition,
           type: selection.type,
         };
 
-        if (hasInitialTrigger) {
-          return [newNode];
-        }
-
-        return [...nodes, newNode];
+        return [...otherNodes, newNode];
       });
 
       onOpenChange(false);
@@ -3,29 +3,70 @@
 import { NodeToolbar, Position } from '@xyflow/react';
 import { ReactNode } from 'react';
 import { Button } from './ui/button';
-import { SettingsIcon, TrashIcon } from 'lucide-react';
+import {
+  FastForwardIcon,
+  PlayIcon,
+  SettingsIcon,
+  TrashIcon,
+} from 'lucide-react';
 
 interface WorkflowNodeProps {
   children: ReactNode;
   showToolbar?: boolean;
+  /** Extra toolbar buttons, shown before settings and delete */
+  actions?: ReactNode;
   onDelete?: () => void;
   onSettings?: () => void;
+  /** Run this node alone, with the output of the nodes before it */
+  onExecuteStep?: () => void;
+  /** Run the nodes before this one and this node */
+  onExecuteUpTo?: () => void;
   name?: string;
   description?: string;
+  /** Name the node's output is found under in templates */
+  variableName?: string;
+  /** Items the node emitted in the most recent execution */
+  itemCount?: number;
 }
 
 export function WorkflowNode({
   children,
   showToolbar = true,
+  actions,
   onDelete,
   onSettings,
+  onExecuteStep,
+  onExecuteUpTo,
   name,
   description,
+  variableName,
+  itemCount,
 }: WorkflowNodeProps) {
   return (
     <>
       {showToolbar && (
         <NodeToolbar>
+          {actions}
+          {onExecuteStep && (
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Execute step"
+              onClick={onExecuteStep}
+            >
+              <PlayIcon className="size-4" />
+            </Button>
+          )}
+          {onExecuteUpTo && (
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Execute up to here"
+              onClick={onExecuteUpTo}
+            >
+              <FastForwardIcon className="size-4" />
+            </Button>
+          )}
           <Button size="sm" variant="ghost" onClick={onSettings}>
             <SettingsIcon className="size-4" />
           </Button>
@@ -42,11 +83,21 @@ export function WorkflowNode({
           className="max-w-[200px] text-center"
         >
           <p className="font-medium">{name}</p>
+          {variableName && (
+            <p className="text-muted-foreground truncate font-mono text-xs">
+              {variableName}
+            </p>
+          )}
           {description && (
             <p className="text-muted-foreground truncate text-sm">
               {description}
             </p>
           )}
+          {itemCount !== undefined && (
+            <p className="text-muted-foreground text-xs">
+              {itemCount} {itemCount === 1 ? 'item' : 'items'}
+            </p>
+          )}
         </NodeToolbar>
       )}
     </>
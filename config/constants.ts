@@ -1,6 +1,76 @@
+import { NodeType } from '@/lib/generated/prisma/enums';
+
 export const PAGINATION = {
   DEFAULT_PAGE: 1,
   DEFAULT_PAGE_SIZE: 5,
   MAX_PAGE_SIZE: 100,
   MIN_PAGE_SIZE: 1,
 };
+
+export const WORKFLOW_PARALLELISM = {
+  DEFAULT: 4,
+  MIN: 1,
+  MAX: 10,
+};
+
+export const TRIGGER_NODE_TYPES: NodeType[] = [
+  NodeType.MANUAL_TRIGGER,
+  NodeType.ERROR_TRIGGER,
+  NodeType.EXECUTE_WORKFLOW_TRIGGER,
+];
+
+export const NODE_HANDLES = {
+  MAIN_INPUT: 'target-1',
+  MAIN_OUTPUT: 'source-1',
+  ERROR_OUTPUT: 'error',
+};
+
+export const NODE_RETRY = {
+  MAX_RETRIES: 10,
+  MAX_DELAY_SECONDS: 3600,
+};
+
+export const EXECUTION_TIMEOUT = {
+  MAX_NODE_SECONDS: 3600,
+  MAX_WORKFLOW_SECONDS: 7 * 24 * 3600,
+};
+
+export const IF_OUTPUTS = {
+  TRUE: 'true',
+  FALSE: 'false',
+};
+
+export const SWITCH_FALLBACK_OUTPUT = 'fallback';
+
+export const LOOP_OUTPUTS = {
+  LOOP: 'loop',
+  DONE: 'done',
+};
+
+export const APPROVAL_OUTPUTS = {
+  APPROVED: 'approved',
+  REJECTED: 'rejected',
+};
+
+export const APPROVAL_EXPIRY_HOURS = {
+  DEFAULT: 72,
+  MIN: 1,
+  MAX: 365 * 24,
+};
+
+// Outputs whose nodes only run when the node runs them as a subgraph, e.g.
+// once per batch of a loop, instead of being scheduled with the rest
+export const SUBGRAPH_OUTPUTS: Partial<Record<NodeType, string[]>> = {
+  [NodeType.LOOP_OVER_ITEMS]: [LOOP_OUTPUTS.LOOP],
+};
+
+// Node types that handle every item in a single call, whatever their
+// `runOnceForAllItems` setting. Other nodes run once per item by default.
+// An approval is one decision per node run, whatever the number of items.
+export const RUN_ONCE_NODE_TYPES: NodeType[] = [
+  ...TRIGGER_NODE_TYPES,
+  NodeType.MERGE,
+  NodeType.LOOP_OVER_ITEMS,
+  NodeType.WAIT,
+  NodeType.APPROVAL,
+];
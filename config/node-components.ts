@@ -1,6 +1,15 @@
 import { InitialNode } from '@/components/initial-node';
 import { HttpRequestNode } from '@/features/executions/components/http-request/node';
+import { IfNode } from '@/features/executions/components/if/node';
+import { SwitchNode } from '@/features/executions/components/switch/node';
+import { MergeNode } from '@/features/executions/components/merge/node';
+import { LoopOverItemsNode } from '@/features/executions/components/loop-over-items/node';
+import { WaitNode } from '@/features/executions/components/wait/node';
+import { ApprovalNode } from '@/features/executions/components/approval/node';
+import { ExecuteWorkflowNode } from '@/features/executions/components/execute-workflow/node';
 import { ManualTriggerNode } from '@/features/triggers/components/manual-trigger/node';
+import { ErrorTriggerNode } from '@/features/triggers/components/error-trigger/node';
+import { ExecuteWorkflowTriggerNode } from '@/features/triggers/components/execute-workflow-trigger/node';
 import { NodeType } from '@/lib/generated/prisma/enums';
 import type { NodeTypes } from '@xyflow/react';
 
@@ -8,6 +17,15 @@ export const nodeComponents = {
   [NodeType.INITIAL]: InitialNode,
   [NodeType.HTTP_REQUEST]: HttpRequestNode,
   [NodeType.MANUAL_TRIGGER]: ManualTriggerNode,
+  [NodeType.IF]: IfNode,
+  [NodeType.SWITCH]: SwitchNode,
+  [NodeType.MERGE]: MergeNode,
+  [NodeType.ERROR_TRIGGER]: ErrorTriggerNode,
+  [NodeType.LOOP_OVER_ITEMS]: LoopOverItemsNode,
+  [NodeType.WAIT]: WaitNode,
+  [NodeType.APPROVAL]: ApprovalNode,
+  [NodeType.EXECUTE_WORKFLOW]: ExecuteWorkflowNode,
+  [NodeType.EXECUTE_WORKFLOW_TRIGGER]: ExecuteWorkflowTriggerNode,
 } as const satisfies NodeTypes;
 
 export type RegisteredNodeType = keyof typeof nodeComponents;
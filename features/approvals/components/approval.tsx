@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { CheckIcon, XIcon } from 'lucide-react';
+import { ErrorView, LoadingView } from '@/components/entity-components';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { APPROVAL_OUTPUTS } from '@/config/constants';
+import type { ApprovalDecision } from '@/features/executions/lib/approvals';
+import { ApprovalStatus, ExecutionStatus } from '@/lib/generated/prisma/enums';
+import { useDecideApproval, useSuspenseApproval } from '../hooks/use-approvals';
+
+const approvalStatusLabels: Record<ApprovalStatus, string> = {
+  [ApprovalStatus.PENDING]: 'Waiting for a decision',
+  [ApprovalStatus.APPROVED]: 'Approved',
+  [ApprovalStatus.REJECTED]: 'Rejected',
+  [ApprovalStatus.EXPIRED]: 'Expired',
+};
+
+export function ApprovalLoading() {
+  return <LoadingView message="Loading approval..." />;
+}
+
+export function ApprovalError() {
+  return <ErrorView message="This approval link is invalid" />;
+}
+
+interface ApprovalViewProps {
+  approvalId: string;
+  decision: ApprovalDecision;
+  token: string;
+}
+
+export function ApprovalView({
+  approvalId,
+  decision,
+  token,
+}: ApprovalViewProps) {
+  const link = { id: approvalId, decision, token };
+  const { data: approval } = useSuspenseApproval(link);
+  const decideApproval = useDecideApproval();
+  const [comment, setComment] = useState('');
+
+  const isApprove = decision === APPROVAL_OUTPUTS.APPROVED;
+  const canDecide =
+    approval.status === ApprovalStatus.PENDING &&
+    approval.executionStatus === ExecutionStatus.RUNNING &&
+    approval.expiresAt.getTime() > Date.now();
+
+  const handleDecide = () => {
+    decideApproval.mutate({ ...link, comment });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval requested</CardTitle>
+        <CardDescription>
+          {approval.workflowName}
+          {approval.nodeName && <> &bull; {approval.nodeName}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-y-4">
+        <p className="whitespace-pre-wrap text-sm">{approval.message}</p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          <dt>Requested</dt>
+          <dd>{format(approval.createdAt, 'PPpp')}</dd>
+          <dt>Status</dt>
+          <dd>
+            {approvalStatusLabels[approval.status]}
+            {approval.decidedAt &&
+              ` ${formatDistanceToNow(approval.decidedAt, { addSuffix: true })}`}
+          </dd>
+          {approval.status === ApprovalStatus.PENDING && (
+            <>
+              <dt>Expires</dt>
+              <dd>{format(approval.expiresAt, 'PPpp')}</dd>
+            </>
+          )}
+          {approval.comment && (
+            <>
+              <dt>Comment</dt>
+              <dd className="whitespace-pre-wrap">{approval.comment}</dd>
+            </>
+          )}
+        </dl>
+        {canDecide && (
+          <div className="flex flex-col gap-y-2">
+            <Label htmlFor="approval-comment">Comment</Label>
+            <Textarea
+              id="approval-comment"
+              placeholder="Optional"
+              maxLength={2000}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        )}
+        {approval.status === ApprovalStatus.PENDING && !canDecide && (
+          <p className="text-sm text-muted-foreground">
+            This request can no longer be decided.
+          </p>
+        )}
+      </CardContent>
+      {canDecide && (
+        <CardFooter>
+          <Button
+            className="w-full"
+            variant={isApprove ? 'default' : 'destructive'}
+            disabled={decideApproval.isPending}
+            onClick={handleDecide}
+          >
+            {isApprove ? <CheckIcon /> : <XIcon />}
+            {isApprove ? 'Approve' : 'Reject'}
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
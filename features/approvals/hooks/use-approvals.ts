@@ -0,0 +1,39 @@
+import { useTRPC } from '@/trpc/client';
+import {
+  useMutation,
+  useQueryClient,
+  useSuspenseQuery,
+} from '@tanstack/react-query';
+import type { inferInput } from '@trpc/tanstack-react-query';
+import { toast } from 'sonner';
+
+/**
+ * Hook to fetch the approval a signed link points to using suspense
+ */
+export const useSuspenseApproval = (
+  params: inferInput<ReturnType<typeof useTRPC>['approvals']['getOne']>
+) => {
+  const trpc = useTRPC();
+
+  return useSuspenseQuery(trpc.approvals.getOne.queryOptions(params));
+};
+
+/**
+ * Hook to approve or reject through a signed link
+ */
+export const useDecideApproval = () => {
+  const queryClient = useQueryClient();
+  const trpc = useTRPC();
+
+  return useMutation(
+    trpc.approvals.decide.mutationOptions({
+      onSuccess: () => {
+        toast.success('Decision recorded.');
+        queryClient.invalidateQueries(trpc.approvals.getOne.queryFilter());
+      },
+      onError: (error) => {
+        toast.error(`Failed to record decision: ${error.message}`);
+      },
+    })
+  );
+};
@@ -0,0 +1,11 @@
+import type { inferInput } from '@trpc/tanstack-react-query';
+import { prefetch, trpc } from '@/trpc/server';
+
+type Input = inferInput<typeof trpc.approvals.getOne>;
+
+/**
+ * Prefetch the approval a signed link points to
+ */
+export const prefetchApproval = (params: Input) => {
+  return prefetch(trpc.approvals.getOne.queryOptions(params));
+};
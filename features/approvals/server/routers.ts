@@ -0,0 +1,123 @@
+import prisma from '@/lib/db';
+import { baseProcedure, createTRPCRouter } from '@/trpc/init';
+import z from 'zod';
+import { TRPCError } from '@trpc/server';
+import { inngest } from '@/inngest/client';
+import { APPROVAL_OUTPUTS } from '@/config/constants';
+import { ApprovalStatus, ExecutionStatus } from '@/lib/generated/prisma/enums';
+import {
+  APPROVAL_DECIDED_EVENT,
+  type ApprovalDecidedEventData,
+  verifyApprovalToken,
+} from '@/features/executions/lib/approvals';
+import { decideApproval } from '@/features/executions/lib/execution-store';
+
+// The signed link is what grants access, approvers need no account
+const approvalLinkSchema = z.object({
+  id: z.string(),
+  decision: z.enum([APPROVAL_OUTPUTS.APPROVED, APPROVAL_OUTPUTS.REJECTED]),
+  token: z.string(),
+});
+
+const assertValidLink = ({
+  id,
+  decision,
+  token,
+}: z.infer<typeof approvalLinkSchema>) => {
+  if (!verifyApprovalToken(id, decision, token)) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Approval not found',
+    });
+  }
+};
+
+export const approvalsRouter = createTRPCRouter({
+  getOne: baseProcedure.input(approvalLinkSchema).query(async ({ input }) => {
+    assertValidLink(input);
+
+    const approval = await prisma.approval.findUniqueOrThrow({
+      where: { id: input.id },
+      include: {
+        execution: {
+          select: {
+            status: true,
+            workflow: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    const nodeExecution = await prisma.nodeExecution.findUnique({
+      where: {
+        executionId_nodeId_runIndex: {
+          executionId: approval.executionId,
+          nodeId: approval.nodeId,
+          runIndex: approval.runIndex,
+        },
+      },
+      select: { nodeName: true },
+    });
+
+    return {
+      id: approval.id,
+      message: approval.message,
+      status: approval.status,
+      comment: approval.comment,
+      createdAt: approval.createdAt,
+      expiresAt: approval.expiresAt,
+      decidedAt: approval.decidedAt,
+      workflowName: approval.execution.workflow.name,
+      nodeName: nodeExecution?.nodeName ?? null,
+      executionStatus: approval.execution.status,
+    };
+  }),
+  decide: baseProcedure
+    .input(
+      approvalLinkSchema.extend({
+        comment: z.string().trim().max(2000).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      assertValidLink(input);
+
+      const approval = await prisma.approval.findUniqueOrThrow({
+        where: { id: input.id },
+        select: { execution: { select: { status: true } } },
+      });
+
+      if (approval.execution.status !== ExecutionStatus.RUNNING) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The execution is no longer running',
+        });
+      }
+
+      const decided = await decideApproval({
+        approvalId: input.id,
+        status:
+          input.decision === APPROVAL_OUTPUTS.APPROVED
+            ? ApprovalStatus.APPROVED
+            : ApprovalStatus.REJECTED,
+        comment: input.comment || null,
+      });
+
+      if (!decided) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This approval was already decided or has expired',
+        });
+      }
+
+      const data: ApprovalDecidedEventData = {
+        approvalId: decided.id,
+        decision: input.decision,
+        comment: decided.comment,
+      };
+
+      // Resumes the Approval node waiting for this decision
+      await inngest.send({ name: APPROVAL_DECIDED_EVENT, data });
+
+      return decided;
+    }),
+});
@@ -3,7 +3,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { Button } from '@/components/ui/button';
-import { Briefcase, SaveIcon } from 'lucide-react';
+import { Briefcase, SaveIcon, SettingsIcon } from 'lucide-react';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -12,18 +12,48 @@ import {
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
 import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
 import {
   useSuspenseWorkflow,
   useUpdateWorkflow,
   useUpdateWorkflowName,
+  useUpdateWorkflowSettings,
 } from '@/features/workflows/hooks/use-workflows';
-import { useAtomValue } from 'jotai';
-import { editorAtom } from '../store/atoms';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { editorAtom, rejectedIssuesAtom } from '../store/atoms';
+import {
+  EXECUTION_TIMEOUT,
+  PAGINATION,
+  WORKFLOW_PARALLELISM,
+} from '@/config/constants';
+import { useTRPC } from '@/trpc/client';
+import { toast } from 'sonner';
+import {
+  validateWorkflowGraph,
+  WorkflowValidationError,
+  type WorkflowIssue,
+} from '@/features/workflows/lib/validation';
+
+const NO_ERROR_WORKFLOW = 'none';
 
 export function EditorSaveButton({ workflowId }: { workflowId: string }) {
   const editor = useAtomValue(editorAtom);
   const saveWorkflow = useUpdateWorkflow();
+  const setRejectedIssues = useSetAtom(rejectedIssuesAtom);
 
   const handleSave = () => {
     if (!editor) {
@@ -33,11 +63,33 @@ export function EditorSaveButton({ workflowId }: { workflowId: string }) {
     const nodes = editor.getNodes();
     const edges = editor.getEdges();
 
-    saveWorkflow.mutate({
-      id: workflowId,
-      nodes,
-      edges,
-    });
+    // The issues are already highlighted on the canvas
+    const issues = validateWorkflowGraph(nodes, edges);
+
+    if (issues.length > 0) {
+      toast.error(
+        `Failed to save workflow: ${new WorkflowValidationError(issues).message}`
+      );
+      return;
+    }
+
+    setRejectedIssues(null);
+    saveWorkflow.mutate(
+      {
+        id: workflowId,
+        nodes,
+        edges,
+      },
+      {
+        // The server validates saves too, its issues are highlighted the same
+        onError: (error) => {
+          setRejectedIssues({
+            workflowId,
+            issues: (error.data?.issues ?? []) as WorkflowIssue[],
+          });
+        },
+      }
+    );
   };
   return (
     <div className="ml-auto">
@@ -49,6 +101,143 @@ export function EditorSaveButton({ workflowId }: { workflowId: string }) {
   );
 }
 
+export function EditorSettingsButton({ workflowId }: { workflowId: string }) {
+  const trpc = useTRPC();
+  const { data: workflow } = useSuspenseWorkflow(workflowId);
+  const updateSettings = useUpdateWorkflowSettings();
+
+  const [open, setOpen] = useState(false);
+  const [maxParallelism, setMaxParallelism] = useState(
+    workflow.maxParallelism
+  );
+  const [errorWorkflowId, setErrorWorkflowId] = useState(
+    workflow.errorWorkflowId
+  );
+  const [timeoutSeconds, setTimeoutSeconds] = useState(
+    workflow.timeoutSeconds
+  );
+
+  const workflows = useQuery({
+    ...trpc.workflows.getMany.queryOptions({
+      pageSize: PAGINATION.MAX_PAGE_SIZE,
+    }),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setMaxParallelism(workflow.maxParallelism);
+      setErrorWorkflowId(workflow.errorWorkflowId);
+      setTimeoutSeconds(workflow.timeoutSeconds);
+    }
+  }, [
+    open,
+    workflow.maxParallelism,
+    workflow.errorWorkflowId,
+    workflow.timeoutSeconds,
+  ]);
+
+  const isValid =
+    Number.isInteger(maxParallelism) &&
+    maxParallelism >= WORKFLOW_PARALLELISM.MIN &&
+    maxParallelism <= WORKFLOW_PARALLELISM.MAX &&
+    (timeoutSeconds === null ||
+      (Number.isInteger(timeoutSeconds) &&
+        timeoutSeconds >= 1 &&
+        timeoutSeconds <= EXECUTION_TIMEOUT.MAX_WORKFLOW_SECONDS));
+
+  const handleSave = () => {
+    updateSettings.mutate(
+      { id: workflowId, maxParallelism, errorWorkflowId, timeoutSeconds },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline">
+          <SettingsIcon className="size-4" />
+          Settings
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="flex flex-col gap-y-3">
+        <div className="flex flex-col gap-y-2">
+          <Label htmlFor="max-parallelism">Max parallel nodes</Label>
+          <Input
+            id="max-parallelism"
+            type="number"
+            min={WORKFLOW_PARALLELISM.MIN}
+            max={WORKFLOW_PARALLELISM.MAX}
+            value={Number.isNaN(maxParallelism) ? '' : maxParallelism}
+            onChange={(e) => setMaxParallelism(e.target.valueAsNumber)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Nodes on independent branches run at the same time, up to this
+            many at once ({WORKFLOW_PARALLELISM.MIN}-{WORKFLOW_PARALLELISM.MAX}).
+          </p>
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label htmlFor="timeout-seconds">Timeout (seconds)</Label>
+          <Input
+            id="timeout-seconds"
+            type="number"
+            min={1}
+            max={EXECUTION_TIMEOUT.MAX_WORKFLOW_SECONDS}
+            placeholder="No limit"
+            value={timeoutSeconds ?? ''}
+            onChange={(e) =>
+              setTimeoutSeconds(
+                Number.isNaN(e.target.valueAsNumber)
+                  ? null
+                  : e.target.valueAsNumber
+              )
+            }
+          />
+          <p className="text-xs text-muted-foreground">
+            Executions still running after this long fail. Leave empty for no
+            limit.
+          </p>
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <Label htmlFor="error-workflow">Error workflow</Label>
+          <Select
+            value={errorWorkflowId || NO_ERROR_WORKFLOW}
+            onValueChange={(value) =>
+              setErrorWorkflowId(value === NO_ERROR_WORKFLOW ? null : value)
+            }
+          >
+            <SelectTrigger id="error-workflow" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ERROR_WORKFLOW}>None</SelectItem>
+              {workflows.data?.items
+                .filter((item) => item.id !== workflowId)
+                .map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Runs when an execution of this workflow fails. Start it with an
+            error trigger to receive the failure details.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!isValid || updateSettings.isPending}
+        >
+          Save settings
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export function EditorNameInput({ workflowId }: { workflowId: string }) {
   const { data: workflow } = useSuspenseWorkflow(workflowId);
   const updateWorkflow = useUpdateWorkflowName();
@@ -143,7 +332,10 @@ function EditorHeader({ workflowId }: { workflowId: string }) {
       <SidebarTrigger />
       <div className="flex flex-row items-center justify-between gap-x-4 w-full">
         <EditorBreadcrumbs workflowId={workflowId} />
-        <EditorSaveButton workflowId={workflowId} />
+        <div className="ml-auto flex flex-row items-center gap-x-2">
+          <EditorSettingsButton workflowId={workflowId} />
+          <EditorSaveButton workflowId={workflowId} />
+        </div>
       </div>
     </header>
   );
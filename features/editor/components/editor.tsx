@@ -23,10 +23,17 @@ import '@xyflow/react/dist/style.css';
 import { nodeComponents } from '@/config/node-components';
 import { AddNodeButton } from './add-node-button';
 
-import { useSetAtom } from 'jotai';
-import { editorAtom } from '../store/atoms';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { editorAtom, rejectedIssuesAtom } from '../store/atoms';
 import { NodeType } from '@/lib/generated/prisma/enums';
 import { ExecuteWorkflowbutton } from './execute-workflow-button';
+import { useNodeStatusSubscription } from '@/features/executions/hooks/use-node-status';
+import {
+  getDisconnectedNodeIds,
+  getEdgeKey,
+  validateWorkflowGraph,
+} from '@/features/workflows/lib/validation';
+import { WorkflowIssues } from './workflow-issues';
 
 export function EditorLoading() {
   return <LoadingView message="Loading editor..." />;
@@ -40,6 +47,7 @@ function Editor({ workflowId }: { workflowId: string }) {
   const { data: workflow } = useSuspenseWorkflow(workflowId);
 
   const setEditor = useSetAtom(editorAtom);
+  useNodeStatusSubscription(workflowId);
 
   const [nodes, setNodes] = useState<Node[]>(workflow.nodes);
   const [edges, setEdges] = useState<Edge[]>(workflow.edges);
@@ -60,6 +68,69 @@ function Editor({ workflowId }: { workflowId: string }) {
     []
   );
 
+  // Checked while editing, saving an invalid graph is refused. Issues the
+  // server refused the last save for are shown as well.
+  const rejectedIssues = useAtomValue(rejectedIssuesAtom);
+  const issues = useMemo(() => {
+    const found = validateWorkflowGraph(nodes, edges);
+    const messages = new Set(found.map((issue) => issue.message));
+
+    if (rejectedIssues?.workflowId !== workflowId) {
+      return found;
+    }
+
+    return [
+      ...found,
+      ...rejectedIssues.issues.filter((issue) => !messages.has(issue.message)),
+    ];
+  }, [nodes, edges, rejectedIssues, workflowId]);
+
+  // Nodes no trigger leads to are dimmed, they never run
+  const disconnectedNodeIds = useMemo(
+    () => new Set(getDisconnectedNodeIds(nodes, edges)),
+    [nodes, edges]
+  );
+
+  const displayedNodes = useMemo(() => {
+    const invalidNodeIds = new Set(issues.flatMap((issue) => issue.nodeIds));
+
+    if (invalidNodeIds.size === 0 && disconnectedNodeIds.size === 0) {
+      return nodes;
+    }
+
+    return nodes.map((node) => {
+      if (invalidNodeIds.has(node.id)) {
+        return { ...node, className: 'rounded-sm ring-2 ring-destructive' };
+      }
+
+      if (disconnectedNodeIds.has(node.id)) {
+        return {
+          ...node,
+          className:
+            'rounded-sm opacity-60 outline-2 outline-dashed outline-offset-4 outline-muted-foreground',
+        };
+      }
+
+      return node;
+    });
+  }, [nodes, issues, disconnectedNodeIds]);
+
+  const displayedEdges = useMemo(() => {
+    const invalidEdgeKeys = new Set(
+      issues.flatMap((issue) => issue.edges.map(getEdgeKey))
+    );
+
+    if (invalidEdgeKeys.size === 0) {
+      return edges;
+    }
+
+    return edges.map((edge) =>
+      invalidEdgeKeys.has(getEdgeKey(edge))
+        ? { ...edge, style: { ...edge.style, stroke: 'var(--destructive)' } }
+        : edge
+    );
+  }, [edges, issues]);
+
   const hasManualTrigger = useMemo(() => {
     return nodes.some((node) => node.type === NodeType.MANUAL_TRIGGER);
   }, [nodes]);
@@ -67,8 +138,8 @@ function Editor({ workflowId }: { workflowId: string }) {
   return (
     <div className="size-full">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayedNodes}
+        edges={displayedEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
@@ -87,6 +158,11 @@ function Editor({ workflowId }: { workflowId: string }) {
         <Panel position="top-right">
           <AddNodeButton />
         </Panel>
+        {issues.length > 0 && (
+          <Panel position="top-left">
+            <WorkflowIssues issues={issues} />
+          </Panel>
+        )}
         {hasManualTrigger && (
           <Panel position="bottom-center">
             <ExecuteWorkflowbutton workflowId={workflowId} />
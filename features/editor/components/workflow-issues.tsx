@@ -0,0 +1,29 @@
+'use client';
+
+import { AlertTriangleIcon } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { WorkflowIssue } from '@/features/workflows/lib/validation';
+
+/**
+ * Issues of the graph being edited, the nodes and connections involved are
+ * highlighted on the canvas
+ */
+export function WorkflowIssues({ issues }: { issues: WorkflowIssue[] }) {
+  return (
+    <Alert variant="destructive" className="max-w-sm">
+      <AlertTriangleIcon />
+      <AlertTitle>
+        {issues.length === 1
+          ? 'This workflow has an issue'
+          : `This workflow has ${issues.length} issues`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
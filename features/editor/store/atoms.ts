@@ -1,4 +1,28 @@
 import { ReactFlowInstance } from '@xyflow/react';
 import { atom } from 'jotai';
+import type { NodeStatus } from '@/components/react-flow/node-status-indicator';
+import type { WorkflowIssue } from '@/features/workflows/lib/validation';
 
 export const editorAtom = atom<ReactFlowInstance | null>(null);
+
+export type NodeStatuses = {
+  executionId: string | null;
+  statuses: Record<string, NodeStatus>;
+  /** Items emitted by the nodes that succeeded */
+  itemCounts: Record<string, number>;
+};
+
+// Live node statuses of the most recent execution of the open workflow
+export const nodeStatusesAtom = atom<NodeStatuses>({
+  executionId: null,
+  statuses: {},
+  itemCounts: {},
+});
+
+export type RejectedIssues = {
+  workflowId: string;
+  issues: WorkflowIssue[];
+};
+
+// Issues the server refused the last save for, highlighted until the next save
+export const rejectedIssuesAtom = atom<RejectedIssues | null>(null);
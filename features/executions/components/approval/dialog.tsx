@@ -0,0 +1,167 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { APPROVAL_EXPIRY_HOURS } from '@/config/constants';
+
+const formSchema = z.object({
+  message: z.string().trim().min(1, { message: 'Message is required' }),
+  expiresInHours: z
+    .number()
+    .int()
+    .min(APPROVAL_EXPIRY_HOURS.MIN)
+    .max(APPROVAL_EXPIRY_HOURS.MAX),
+  notifyUrl: z.string().trim(),
+});
+
+export type ApprovalFormValues = z.infer<typeof formSchema>;
+
+const getDefaults = (
+  defaultValues: Partial<ApprovalFormValues>
+): ApprovalFormValues => ({
+  message: defaultValues.message || '',
+  expiresInHours: defaultValues.expiresInHours || APPROVAL_EXPIRY_HOURS.DEFAULT,
+  notifyUrl: defaultValues.notifyUrl || '',
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ApprovalFormValues) => void;
+  defaultValues?: Partial<ApprovalFormValues>;
+}
+
+function ApprovalDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues = {},
+}: Props) {
+  const form = useForm<ApprovalFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const handleSubmit = (values: ApprovalFormValues) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Approval</DialogTitle>
+          <DialogDescription>
+            Pause the execution until someone approves or rejects it through a
+            signed link.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Pay {{invoice.data.amount}} to {{invoice.data.supplier}}?"
+                      className="min-h-[100px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Shown on the approval page. Use {'{{variables}}'} for the
+                    details of the request
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresInHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires after (hours)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={APPROVAL_EXPIRY_HOURS.MIN}
+                      max={APPROVAL_EXPIRY_HOURS.MAX}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    The node fails when nobody decides in time
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notifyUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notification URL</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="https://hooks.example.com/approvals"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Optional. Receives a POST with the message and the approve
+                    and reject links
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ApprovalDialog;
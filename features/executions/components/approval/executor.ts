@@ -0,0 +1,148 @@
+import { NonRetriableError } from 'inngest';
+import type { NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  APPROVAL_DECIDED_EVENT,
+  getApprovalUrls,
+} from '@/features/executions/lib/approvals';
+import {
+  createApproval,
+  expireApproval,
+} from '@/features/executions/lib/execution-store';
+import {
+  renderTemplate,
+  TemplateError,
+} from '@/features/executions/lib/templating';
+import { APPROVAL_EXPIRY_HOURS, APPROVAL_OUTPUTS } from '@/config/constants';
+import { ApprovalStatus } from '@/lib/generated/prisma/enums';
+
+type ApprovalData = {
+  message?: string;
+  expiresInHours?: number;
+  notifyUrl?: string;
+};
+
+export const approvalExecutor: NodeExecutor<ApprovalData> = async ({
+  data,
+  nodeId,
+  executionId,
+  runIndex,
+  context,
+  items,
+  step,
+  signal,
+  deadline,
+  markWaiting,
+}) => {
+  if (!data.message) {
+    throw new NonRetriableError('Approval node: message is not configured');
+  }
+
+  const render = (template: string) => {
+    try {
+      return renderTemplate(template, context);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new NonRetriableError(`Approval node: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  const request = await step.run(`request-approval:${nodeId}`, async () => {
+    const hours = data.expiresInHours ?? APPROVAL_EXPIRY_HOURS.DEFAULT;
+    const expiresAt = Date.now() + hours * 3600 * 1000;
+    const approval = await createApproval({
+      executionId,
+      nodeId,
+      runIndex,
+      message: render(data.message!),
+      // Nobody can decide once the workflow timed out
+      expiresAt: new Date(
+        deadline ? Math.min(expiresAt, deadline.getTime()) : expiresAt
+      ),
+    });
+
+    await markWaiting(approval.expiresAt);
+
+    return {
+      approvalId: approval.id,
+      message: approval.message,
+      expiresAt: approval.expiresAt.toISOString(),
+      ...getApprovalUrls(approval.id),
+    };
+  });
+
+  // Sent in its own step, so a failed notification does not request again
+  if (data.notifyUrl) {
+    await step.run(`notify-approval:${nodeId}`, async () => {
+      const notifyUrl = render(data.notifyUrl!);
+
+      try {
+        new URL(notifyUrl);
+      } catch {
+        throw new NonRetriableError(
+          `Approval node: "${notifyUrl}" is not a valid URL`
+        );
+      }
+
+      const response = await fetch(notifyUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Approval node: notification to ${notifyUrl} failed with ${response.status} ${response.statusText}`
+        );
+      }
+    });
+  }
+
+  // Inngest suspends the run until the approval page sends the decision
+  const event = await step.waitForEvent(`wait-for-approval:${nodeId}`, {
+    event: APPROVAL_DECIDED_EVENT,
+    timeout: new Date(request.expiresAt),
+    if: `async.data.approvalId == "${request.approvalId}"`,
+  });
+
+  let decision = event?.data;
+
+  if (!decision) {
+    // The decision may have been made right before the wait started
+    const approval = await step.run(`expire-approval:${nodeId}`, async () => {
+      return expireApproval({ approvalId: request.approvalId });
+    });
+
+    if (approval.status === ApprovalStatus.EXPIRED) {
+      throw new NonRetriableError(
+        `Approval node: nobody approved or rejected before ${request.expiresAt}`
+      );
+    }
+
+    decision = {
+      decision:
+        approval.status === ApprovalStatus.APPROVED
+          ? APPROVAL_OUTPUTS.APPROVED
+          : APPROVAL_OUTPUTS.REJECTED,
+      comment: approval.comment,
+    };
+  }
+
+  // One decision for every item, the items go on with it
+  return emitOutput(
+    items.map((item) => ({
+      ...item,
+      json: {
+        ...item.json,
+        decision: decision.decision,
+        comment: decision.comment ?? null,
+      },
+    })),
+    decision.decision === APPROVAL_OUTPUTS.APPROVED
+      ? APPROVAL_OUTPUTS.APPROVED
+      : APPROVAL_OUTPUTS.REJECTED
+  );
+};
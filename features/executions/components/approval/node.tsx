@@ -0,0 +1,71 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { UserCheckIcon } from 'lucide-react';
+import { memo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import ApprovalDialog, { ApprovalFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+import { APPROVAL_OUTPUTS } from '@/config/constants';
+
+type ApprovalNodeData = Partial<ApprovalFormValues>;
+
+type ApprovalNodeType = Node<ApprovalNodeData>;
+
+const outputs = [
+  { id: APPROVAL_OUTPUTS.APPROVED, label: 'approved' },
+  { id: APPROVAL_OUTPUTS.REJECTED, label: 'rejected' },
+];
+
+export const ApprovalNode = memo((props: NodeProps<ApprovalNodeType>) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { setNodes } = useReactFlow();
+
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  const handleSubmit = (values: ApprovalFormValues) => {
+    setNodes((nodes) =>
+      nodes.map((node) => {
+        if (node.id === props.id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...values,
+            },
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const nodeData = props.data;
+  const description = nodeData?.message ?? 'Not configured';
+
+  return (
+    <>
+      <ApprovalDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+        defaultValues={nodeData}
+      />
+      <BaseExecutionNode
+        {...props}
+        id={props.id}
+        icon={UserCheckIcon}
+        name="Approval"
+        status={nodeStatus}
+        description={description}
+        outputs={outputs}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+ApprovalNode.displayName = 'ApprovalNode';
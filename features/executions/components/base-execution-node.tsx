@@ -1,16 +1,52 @@
 'use client';
 
-import { type NodeProps, Position, useReactFlow } from '@xyflow/react';
-import type { LucideIcon } from 'lucide-react';
+import {
+  type NodeProps,
+  Position,
+  useReactFlow,
+  useUpdateNodeInternals,
+} from '@xyflow/react';
+import {
+  type LucideIcon,
+  PinIcon,
+  ShieldAlertIcon,
+  VariableIcon,
+} from 'lucide-react';
 import Image from 'next/image';
-import { memo, type ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import { memo, type ReactNode, useEffect, useMemo, useState } from 'react';
 import { BaseNode, BaseNodeContent } from '@/components/react-flow/base-node';
 import { BaseHandle } from '@/components/react-flow/base-handle';
 import { WorkflowNode } from '@/components/workflow-node';
+import { Button } from '@/components/ui/button';
+import { NODE_HANDLES, RUN_ONCE_NODE_TYPES } from '@/config/constants';
+import type { NodeType } from '@/lib/generated/prisma/enums';
 import {
   type NodeStatus,
   NodeStatusIndicator,
 } from '@/components/react-flow/node-status-indicator';
+import { getSavedVariableName } from '@/features/workflows/lib/variable-names';
+import { useExecuteWorkflowNode } from '@/features/workflows/hooks/use-workflows';
+import { getNodeSettings } from '../lib/node-settings';
+import { PARTIAL_EXECUTION_MODES } from '../lib/partial-execution';
+import { getPinnedItems } from '../lib/pinned-data';
+import { useNodeItemCount } from '../hooks/use-node-status';
+import type { NodeSettings } from '../types';
+import { NodeSettingsDialog } from './node-settings-dialog';
+import { PinnedDataDialog } from './pinned-data-dialog';
+import { VariableNameDialog } from './variable-name-dialog';
+
+export type NodeHandle = {
+  id: string;
+  label?: string;
+};
+
+const DEFAULT_INPUTS: NodeHandle[] = [{ id: NODE_HANDLES.MAIN_INPUT }];
+const DEFAULT_OUTPUTS: NodeHandle[] = [{ id: NODE_HANDLES.MAIN_OUTPUT }];
+
+const getHandleTop = (index: number, count: number) => {
+  return `${((index + 1) / (count + 1)) * 100}%`;
+};
 
 interface BaseExecutionNodeProps extends NodeProps {
   icon: LucideIcon | string;
@@ -18,6 +54,10 @@ interface BaseExecutionNodeProps extends NodeProps {
   description?: string;
   children?: ReactNode;
   status?: NodeStatus;
+  /** Input handles, spread along the left edge. Defaults to one input. */
+  inputs?: NodeHandle[];
+  /** Output handles, spread along the right edge. Defaults to one output. */
+  outputs?: NodeHandle[];
   onSettings?: () => void;
   onDoubleClick?: () => void;
 }
@@ -25,15 +65,67 @@ interface BaseExecutionNodeProps extends NodeProps {
 export const BaseExecutionNode = memo(
   ({
     id,
+    type,
+    data,
     icon: Icon,
     name,
     description,
     children,
     status = 'initial',
+    inputs = DEFAULT_INPUTS,
+    outputs: nodeOutputs = DEFAULT_OUTPUTS,
     onSettings,
     onDoubleClick,
   }: BaseExecutionNodeProps) => {
     const { setNodes, setEdges } = useReactFlow();
+    const updateNodeInternals = useUpdateNodeInternals();
+    const [settingsOpen, setSettingsOpen] = useState(false);
+    const [variableNameOpen, setVariableNameOpen] = useState(false);
+    const [pinnedDataOpen, setPinnedDataOpen] = useState(false);
+    const { workflowId } = useParams<{ workflowId: string }>();
+    const executeNode = useExecuteWorkflowNode();
+    const itemCount = useNodeItemCount(id);
+
+    const variableName = getSavedVariableName(data) ?? '';
+    const pinned = getPinnedItems(data) !== undefined;
+
+    const settings = useMemo(() => getNodeSettings(data), [data]);
+    const outputs = useMemo(
+      () =>
+        settings.errorOutput
+          ? [...nodeOutputs, { id: NODE_HANDLES.ERROR_OUTPUT, label: 'error' }]
+          : nodeOutputs,
+      [nodeOutputs, settings.errorOutput]
+    );
+
+    const handleIds = [...inputs, ...outputs]
+      .map((handle) => handle.id)
+      .join(',');
+
+    // React Flow caches handle positions, re-measure when handles change
+    useEffect(() => {
+      updateNodeInternals(id);
+    }, [id, handleIds, updateNodeInternals]);
+
+    const handleSettingsSubmit = (values: NodeSettings) => {
+      setNodes((currentNodes) =>
+        currentNodes.map((node) =>
+          node.id === id
+            ? { ...node, data: { ...node.data, settings: values } }
+            : node
+        )
+      );
+
+      if (!values.errorOutput) {
+        setEdges((currentEdges) =>
+          currentEdges.filter(
+            (edge) =>
+              edge.source !== id ||
+              edge.sourceHandle !== NODE_HANDLES.ERROR_OUTPUT
+          )
+        );
+      }
+    };
 
     const handleDelete = () => {
       setNodes((currentNodes) => {
@@ -53,9 +145,72 @@ export const BaseExecutionNode = memo(
       <WorkflowNode
         name={name}
         description={description}
+        variableName={variableName}
+        itemCount={itemCount}
         onDelete={handleDelete}
         onSettings={onSettings}
+        onExecuteStep={() =>
+          executeNode.mutate({
+            id: workflowId,
+            nodeId: id,
+            mode: PARTIAL_EXECUTION_MODES.STEP,
+          })
+        }
+        onExecuteUpTo={() =>
+          executeNode.mutate({
+            id: workflowId,
+            nodeId: id,
+            mode: PARTIAL_EXECUTION_MODES.UP_TO,
+          })
+        }
+        actions={
+          <>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Variable name"
+              onClick={() => setVariableNameOpen(true)}
+            >
+              <VariableIcon className="size-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant={pinned ? 'secondary' : 'ghost'}
+              title="Pinned data"
+              onClick={() => setPinnedDataOpen(true)}
+            >
+              <PinIcon className="size-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Node settings"
+              onClick={() => setSettingsOpen(true)}
+            >
+              <ShieldAlertIcon className="size-4" />
+            </Button>
+          </>
+        }
       >
+        <VariableNameDialog
+          open={variableNameOpen}
+          onOpenChange={setVariableNameOpen}
+          nodeId={id}
+          variableName={variableName}
+        />
+        <PinnedDataDialog
+          open={pinnedDataOpen}
+          onOpenChange={setPinnedDataOpen}
+          nodeId={id}
+          data={data}
+        />
+        <NodeSettingsDialog
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+          onSubmit={handleSettingsSubmit}
+          defaultValues={settings}
+          canRunPerItem={!RUN_ONCE_NODE_TYPES.includes(type as NodeType)}
+        />
         <NodeStatusIndicator status={status} variant="border">
           <BaseNode status={status} onDoubleClick={onDoubleClick}>
             <BaseNodeContent>
@@ -65,8 +220,36 @@ export const BaseExecutionNode = memo(
                 <Icon className="size-4 text-muted-foreground" />
               )}
               {children}
-              <BaseHandle id="target-1" type="target" position={Position.Left} />
-              <BaseHandle id="source-1" type="source" position={Position.Right} />
+              {inputs.map((input, index) => (
+                <BaseHandle
+                  key={input.id}
+                  id={input.id}
+                  type="target"
+                  position={Position.Left}
+                  style={{ top: getHandleTop(index, inputs.length) }}
+                >
+                  {input.label && (
+                    <span className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 text-[8px] text-muted-foreground whitespace-nowrap">
+                      {input.label}
+                    </span>
+                  )}
+                </BaseHandle>
+              ))}
+              {outputs.map((output, index) => (
+                <BaseHandle
+                  key={output.id}
+                  id={output.id}
+                  type="source"
+                  position={Position.Right}
+                  style={{ top: getHandleTop(index, outputs.length) }}
+                >
+                  {output.label && (
+                    <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-[8px] text-muted-foreground whitespace-nowrap">
+                      {output.label}
+                    </span>
+                  )}
+                </BaseHandle>
+              ))}
             </BaseNodeContent>
           </BaseNode>
         </NodeStatusIndicator>
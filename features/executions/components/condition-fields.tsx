@@ -0,0 +1,167 @@
+'use client';
+
+import z from 'zod';
+import { useFormContext, useWatch } from 'react-hook-form';
+import { createId } from '@paralleldrive/cuid2';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import {
+  CONDITION_OPERATORS,
+  CONDITION_TYPES,
+  type Condition,
+  type ConditionType,
+  getConditionOperator,
+} from '@/features/executions/lib/conditions';
+
+export const conditionSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(CONDITION_TYPES),
+    operator: z.string().min(1, 'Select an operator'),
+    leftValue: z.string().min(1, 'Value is required'),
+    rightValue: z.string().optional(),
+  })
+  .refine(
+    (condition) =>
+      getConditionOperator(condition.type, condition.operator)?.unary ||
+      !!condition.rightValue,
+    { message: 'Value to compare with is required', path: ['rightValue'] }
+  );
+
+const typeLabels: Record<ConditionType, string> = {
+  string: 'String',
+  number: 'Number',
+  boolean: 'Boolean',
+  date: 'Date',
+};
+
+export const createCondition = (): Condition => ({
+  id: createId(),
+  type: 'string',
+  operator: 'equals',
+  leftValue: '',
+  rightValue: '',
+});
+
+interface ConditionFieldsProps {
+  /** Path of the condition in the surrounding form, e.g. `conditions.0` */
+  name: string;
+}
+
+/**
+ * Value / type / operator / value inputs of a single condition, rendered
+ * inside a react-hook-form `Form`
+ */
+export function ConditionFields({ name }: ConditionFieldsProps) {
+  const form = useFormContext();
+  const condition: Condition | undefined = useWatch({
+    control: form.control,
+    name,
+  });
+
+  const type = condition?.type ?? 'string';
+  const isUnary = condition
+    ? getConditionOperator(type, condition.operator)?.unary
+    : false;
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name={`${name}.leftValue`}
+        render={({ field }) => (
+          <FormItem>
+            <FormControl>
+              <Input placeholder="{{httpResponse.status}}" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="flex flex-col gap-2">
+        <FormField
+          control={form.control}
+          name={`${name}.type`}
+          render={({ field }) => (
+            <FormItem>
+              <Select
+                onValueChange={(value: ConditionType) => {
+                  field.onChange(value);
+                  form.setValue(
+                    `${name}.operator`,
+                    CONDITION_OPERATORS[value][0].value
+                  );
+                }}
+                value={field.value}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CONDITION_TYPES.map((conditionType) => (
+                    <SelectItem key={conditionType} value={conditionType}>
+                      {typeLabels[conditionType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name={`${name}.operator`}
+          render={({ field }) => (
+            <FormItem>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Operator" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CONDITION_OPERATORS[type].map((operator) => (
+                    <SelectItem key={operator.value} value={operator.value}>
+                      {operator.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      {isUnary ? (
+        <div />
+      ) : (
+        <FormField
+          control={form.control}
+          name={`${name}.rightValue`}
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <Input placeholder="200" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { PAGINATION } from '@/config/constants';
+import { useTRPC } from '@/trpc/client';
+
+const formSchema = z.object({
+  workflowId: z.string().min(1, { message: 'Select a workflow' }),
+  workflowName: z.string(),
+  mode: z.enum(['wait', 'background']),
+  input: z.string(),
+});
+
+export type ExecuteWorkflowFormValues = z.infer<typeof formSchema>;
+
+const getDefaults = (
+  defaultValues: Partial<ExecuteWorkflowFormValues>
+): ExecuteWorkflowFormValues => ({
+  workflowId: defaultValues.workflowId || '',
+  workflowName: defaultValues.workflowName || '',
+  mode: defaultValues.mode || 'wait',
+  input: defaultValues.input || '',
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ExecuteWorkflowFormValues) => void;
+  defaultValues?: Partial<ExecuteWorkflowFormValues>;
+}
+
+function ExecuteWorkflowDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues = {},
+}: Props) {
+  const trpc = useTRPC();
+  const form = useForm<ExecuteWorkflowFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  const workflows = useQuery({
+    ...trpc.workflows.getMany.queryOptions({
+      pageSize: PAGINATION.MAX_PAGE_SIZE,
+    }),
+    enabled: open,
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const handleSubmit = (values: ExecuteWorkflowFormValues) => {
+    // The name is kept for the node description, the id is what runs
+    const workflow = workflows.data?.items.find(
+      (item) => item.id === values.workflowId
+    );
+
+    onSubmit({
+      ...values,
+      workflowName: workflow?.name ?? values.workflowName,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Execute Workflow</DialogTitle>
+          <DialogDescription>
+            Run another workflow from its Execute Workflow trigger.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="workflowId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Workflow</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={
+                            form.getValues('workflowName') ||
+                            'Select a workflow'
+                          }
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {workflows.data?.items.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mode</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="wait">Wait for the result</SelectItem>
+                      <SelectItem value="background">
+                        Start it and continue
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Waiting passes on the items the workflow ends with.
+                    Otherwise this node passes on the execution id as{' '}
+                    {'{{subWorkflow.executionId}}'}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="input"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Input</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={
+                        '{\n  "userId": "{{httpResponse.data.id}}"\n}'
+                      }
+                      className="min-h-[100px] font-mono text-sm"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    JSON object the workflow starts with. Leave empty to pass on
+                    the items of this node
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExecuteWorkflowDialog;
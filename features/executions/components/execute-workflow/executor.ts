@@ -0,0 +1,126 @@
+import { NonRetriableError, referenceFunction } from 'inngest';
+import type {
+  NodeExecutor,
+  WorkflowContext,
+  WorkflowItem,
+} from '@/features/executions/types';
+import type { executeWorkflow } from '@/inngest/functions';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  prepareSubWorkflow,
+  SubWorkflowError,
+} from '@/features/executions/lib/sub-workflow';
+import {
+  renderTemplate,
+  TemplateError,
+} from '@/features/executions/lib/templating';
+import { NodeType } from '@/lib/generated/prisma/enums';
+
+type ExecuteWorkflowData = {
+  workflowId?: string;
+  /** Wait for the result of the sub-workflow, or only start it */
+  mode?: 'wait' | 'background';
+  /** JSON template of the item to start with, the items as is when empty */
+  input?: string;
+};
+
+// Referenced by id, importing the function would be circular
+const executeWorkflowFunction = referenceFunction<typeof executeWorkflow>({
+  functionId: 'execute-workflow',
+});
+
+const buildInitialItems = (
+  template: string | undefined,
+  context: WorkflowContext,
+  items: WorkflowItem[]
+): WorkflowItem[] => {
+  if (!template?.trim()) {
+    return items;
+  }
+
+  let initialData: unknown;
+
+  try {
+    initialData = JSON.parse(
+      renderTemplate(template, context, { escape: 'json' })
+    );
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new NonRetriableError(`Execute Workflow node: ${error.message}`);
+    }
+    throw new NonRetriableError(
+      'Execute Workflow node: input is not valid JSON'
+    );
+  }
+
+  if (
+    !initialData ||
+    typeof initialData !== 'object' ||
+    Array.isArray(initialData)
+  ) {
+    throw new NonRetriableError(
+      'Execute Workflow node: input must be a JSON object'
+    );
+  }
+
+  return [{ json: initialData as WorkflowContext }];
+};
+
+export const executeWorkflowExecutor: NodeExecutor<
+  ExecuteWorkflowData
+> = async ({ data, nodeId, executionId, context, items, step }) => {
+  if (!data.workflowId) {
+    throw new NonRetriableError(
+      'Execute Workflow node: no workflow is selected'
+    );
+  }
+
+  const run = await step.run(`prepare-sub-workflow:${nodeId}`, async () => {
+    try {
+      return await prepareSubWorkflow({
+        executionId,
+        workflowId: data.workflowId!,
+        initialItems: buildInitialItems(data.input, context, items),
+      });
+    } catch (error) {
+      if (error instanceof SubWorkflowError) {
+        throw new NonRetriableError(`Execute Workflow node: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+
+  // The sub-workflow starts from its Execute Workflow trigger
+  const event = {
+    ...run,
+    triggerType: NodeType.EXECUTE_WORKFLOW_TRIGGER,
+    parentExecutionId: executionId,
+    parentNodeId: nodeId,
+  };
+
+  if (data.mode === 'background') {
+    await step.sendEvent(`execute-workflow:${nodeId}`, {
+      name: 'workflow/execute.workflow',
+      data: event,
+    });
+
+    return emitOutput([{ json: { executionId: run.executionId } }]);
+  }
+
+  // Retrying would start the sub-workflow all over again
+  const output = await step
+    .invoke(`execute-workflow:${nodeId}`, {
+      function: executeWorkflowFunction,
+      data: event,
+    })
+    .catch((error: unknown) => {
+      throw new NonRetriableError(
+        `Execute Workflow node: sub-workflow failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    });
+
+  // The items that reached the end of the sub-workflow
+  return emitOutput(output.result as WorkflowItem[]);
+};
@@ -0,0 +1,70 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { WorkflowIcon } from 'lucide-react';
+import { memo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import ExecuteWorkflowDialog, { ExecuteWorkflowFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+
+type ExecuteWorkflowNodeData = Partial<ExecuteWorkflowFormValues>;
+
+type ExecuteWorkflowNodeType = Node<ExecuteWorkflowNodeData>;
+
+export const ExecuteWorkflowNode = memo(
+  (props: NodeProps<ExecuteWorkflowNodeType>) => {
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const { setNodes } = useReactFlow();
+
+    const nodeStatus = useNodeStatus(props.id);
+
+    const handleOpenSettings = () => setDialogOpen(true);
+
+    const handleSubmit = (values: ExecuteWorkflowFormValues) => {
+      setNodes((nodes) =>
+        nodes.map((node) => {
+          if (node.id === props.id) {
+            return {
+              ...node,
+              data: {
+                ...node.data,
+                ...values,
+              },
+            };
+          }
+          return node;
+        })
+      );
+    };
+
+    const nodeData = props.data;
+    const description = nodeData?.workflowId
+      ? `${nodeData.mode === 'background' ? 'Start' : 'Run'} ${
+          nodeData.workflowName || 'workflow'
+        }`
+      : 'Not configured';
+
+    return (
+      <>
+        <ExecuteWorkflowDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          onSubmit={handleSubmit}
+          defaultValues={nodeData}
+        />
+        <BaseExecutionNode
+          {...props}
+          id={props.id}
+          icon={WorkflowIcon}
+          name="Execute Workflow"
+          status={nodeStatus}
+          description={description}
+          onSettings={handleOpenSettings}
+          onDoubleClick={handleOpenSettings}
+        />
+      </>
+    );
+  }
+);
+
+ExecuteWorkflowNode.displayName = 'ExecuteWorkflowNode';
@@ -0,0 +1,168 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+import {
+  Background,
+  Controls,
+  Handle,
+  type Edge,
+  type Node,
+  type NodeProps,
+  Position,
+  ReactFlow,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { BaseNode, BaseNodeContent } from '@/components/react-flow/base-node';
+import {
+  type NodeStatus,
+  NodeStatusIndicator,
+} from '@/components/react-flow/node-status-indicator';
+import { getNodeTypeOption } from '@/components/node-selector';
+import { WorkflowNode } from '@/components/workflow-node';
+import { TRIGGER_NODE_TYPES } from '@/config/constants';
+import type { NodeType } from '@/lib/generated/prisma/enums';
+import { cn } from '@/lib/utils';
+
+type ExecutionCanvasNodeData = {
+  nodeType: NodeType;
+  status: NodeStatus;
+  description?: string;
+  sourceHandles: string[];
+  targetHandles: string[];
+};
+
+type ExecutionCanvasNodeType = Node<ExecutionCanvasNodeData>;
+
+/**
+ * Read-only node used to replay an execution. Handles are derived from the
+ * edges so that any connection stored on the workflow can be drawn.
+ */
+const ExecutionCanvasNode = memo(
+  ({ data }: NodeProps<ExecutionCanvasNodeType>) => {
+    const option = getNodeTypeOption(data.nodeType);
+    const Icon = option?.icon;
+    const isTrigger = TRIGGER_NODE_TYPES.includes(data.nodeType);
+
+    return (
+      <WorkflowNode
+        showToolbar={false}
+        name={option?.label ?? data.nodeType}
+        description={data.description}
+      >
+        <NodeStatusIndicator
+          status={data.status}
+          variant="border"
+          className={cn(isTrigger && 'rounded-l-2xl')}
+        >
+          <BaseNode
+            status={data.status}
+            className={cn('cursor-pointer', isTrigger && 'rounded-l-2xl')}
+          >
+            <BaseNodeContent>
+              {typeof Icon === 'string' ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={Icon} alt={option?.label} className="size-4" />
+              ) : Icon ? (
+                <Icon className="size-4 text-muted-foreground" />
+              ) : null}
+              {data.targetHandles.map((handleId, index) => (
+                <Handle
+                  key={handleId}
+                  id={handleId}
+                  type="target"
+                  position={Position.Left}
+                  isConnectable={false}
+                  className="opacity-0"
+                  style={{
+                    top: `${((index + 1) / (data.targetHandles.length + 1)) * 100}%`,
+                  }}
+                />
+              ))}
+              {data.sourceHandles.map((handleId, index) => (
+                <Handle
+                  key={handleId}
+                  id={handleId}
+                  type="source"
+                  position={Position.Right}
+                  isConnectable={false}
+                  className="opacity-0"
+                  style={{
+                    top: `${((index + 1) / (data.sourceHandles.length + 1)) * 100}%`,
+                  }}
+                />
+              ))}
+            </BaseNodeContent>
+          </BaseNode>
+        </NodeStatusIndicator>
+      </WorkflowNode>
+    );
+  }
+);
+
+ExecutionCanvasNode.displayName = 'ExecutionCanvasNode';
+
+const nodeTypes = {
+  execution: ExecutionCanvasNode,
+};
+
+interface ExecutionCanvasProps {
+  nodes: Node[];
+  edges: Edge[];
+  getNodeStatus: (nodeId: string) => NodeStatus;
+  getNodeDescription?: (nodeId: string) => string | undefined;
+  onNodeSelect: (nodeId: string) => void;
+}
+
+export function ExecutionCanvas({
+  nodes,
+  edges,
+  getNodeStatus,
+  getNodeDescription,
+  onNodeSelect,
+}: ExecutionCanvasProps) {
+  const canvasNodes = useMemo<ExecutionCanvasNodeType[]>(
+    () =>
+      nodes.map((node) => ({
+        id: node.id,
+        type: 'execution',
+        position: node.position,
+        data: {
+          nodeType: node.type as NodeType,
+          status: getNodeStatus(node.id),
+          description: getNodeDescription?.(node.id),
+          sourceHandles: [
+            ...new Set(
+              edges
+                .filter((edge) => edge.source === node.id)
+                .map((edge) => edge.sourceHandle ?? 'source-1')
+            ),
+          ],
+          targetHandles: [
+            ...new Set(
+              edges
+                .filter((edge) => edge.target === node.id)
+                .map((edge) => edge.targetHandle ?? 'target-1')
+            ),
+          ],
+        },
+      })),
+    [nodes, edges, getNodeStatus, getNodeDescription]
+  );
+
+  return (
+    <ReactFlow
+      nodes={canvasNodes}
+      edges={edges}
+      nodeTypes={nodeTypes}
+      onNodeClick={(_, node) => onNodeSelect(node.id)}
+      nodesDraggable={false}
+      nodesConnectable={false}
+      edgesFocusable={false}
+      fitView
+      panOnScroll
+    >
+      <Background />
+      <Controls showInteractive={false} />
+    </ReactFlow>
+  );
+}
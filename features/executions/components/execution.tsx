@@ -0,0 +1,600 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { RotateCcwIcon } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ErrorView, LoadingView } from '@/components/entity-components';
+import { getNodeTypeOption } from '@/components/node-selector';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ExecutionStatus,
+  NodeExecutionStatus,
+} from '@/lib/generated/prisma/enums';
+import { cn } from '@/lib/utils';
+import { NODE_HANDLES } from '@/config/constants';
+import {
+  useRetryExecution,
+  useSuspenseExecution,
+} from '../hooks/use-executions';
+import { formatDuration, toNodeStatus } from '../lib/utils';
+import { ExecutionCanvas } from './execution-canvas';
+import {
+  CancelExecutionButton,
+  ExecutionStatusIcon,
+  executionStatusLabels,
+  triggerTypeLabels,
+} from './executions';
+
+type ExecutionData = ReturnType<typeof useSuspenseExecution>['data'];
+type NodeExecutionData = ExecutionData['nodeExecutions'][number];
+
+const nodeExecutionStatusColors: Record<NodeExecutionStatus, string> = {
+  [NodeExecutionStatus.RUNNING]: 'bg-blue-600',
+  [NodeExecutionStatus.SUCCESS]: 'bg-green-600',
+  [NodeExecutionStatus.ERROR]: 'bg-red-600',
+  [NodeExecutionStatus.SKIPPED]: 'bg-muted-foreground/40',
+  [NodeExecutionStatus.CANCELLED]: 'bg-muted-foreground',
+  [NodeExecutionStatus.TIMED_OUT]: 'bg-orange-600',
+  [NodeExecutionStatus.NOT_EXECUTED]: 'bg-muted-foreground/20',
+  [NodeExecutionStatus.WAITING]: 'bg-amber-500',
+};
+
+// Shown on the timeline instead of the duration
+const nodeExecutionStatusLabels: Partial<Record<NodeExecutionStatus, string>> =
+  {
+    [NodeExecutionStatus.SKIPPED]: 'Skipped',
+    [NodeExecutionStatus.CANCELLED]: 'Cancelled',
+    [NodeExecutionStatus.TIMED_OUT]: 'Timed out',
+    [NodeExecutionStatus.NOT_EXECUTED]: 'Not executed',
+    [NodeExecutionStatus.WAITING]: 'Waiting',
+  };
+
+const getNodeLabel = (nodeExecution: NodeExecutionData) => {
+  const label =
+    getNodeTypeOption(nodeExecution.nodeType)?.label ?? nodeExecution.nodeName;
+
+  // Nodes inside a loop run once per batch
+  return nodeExecution.runIndex > 0
+    ? `${label} #${nodeExecution.runIndex + 1}`
+    : label;
+};
+
+export function ExecutionLoading() {
+  return <LoadingView message="Loading execution..." />;
+}
+
+export function ExecutionError() {
+  return <ErrorView message="Error loading execution" />;
+}
+
+/**
+ * Runs a failed execution again from the node that failed. The nodes that
+ * succeeded are not run again, their output is reused.
+ */
+function RetryExecutionButton({ executionId }: { executionId: string }) {
+  const retryExecution = useRetryExecution();
+  const router = useRouter();
+
+  const handleRetry = (useCurrentVersion: boolean) => {
+    retryExecution.mutate(
+      { id: executionId, useCurrentVersion },
+      {
+        onSuccess: (data) => {
+          router.push(`/executions/${data.id}`);
+        },
+      }
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={retryExecution.isPending}>
+          <RotateCcwIcon className="size-4" />
+          Retry from failed node
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleRetry(false)}>
+          With the workflow as it ran
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleRetry(true)}>
+          With the current saved workflow
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function ExecutionHeader({ execution }: { execution: ExecutionData }) {
+  const waiting = execution.nodeExecutions.filter(
+    (nodeExecution) => nodeExecution.status === NodeExecutionStatus.WAITING
+  );
+  const latestRetry = execution.retries.at(-1);
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <div className="flex flex-row items-center gap-x-3">
+        <ExecutionStatusIcon status={execution.status} className="size-6" />
+        <div className="flex flex-col">
+          <h1 className="text-lg md:text-xl font-semibold">
+            <Link
+              href={`/workflows/${execution.workflow.id}`}
+              prefetch
+              className="hover:underline"
+            >
+              {execution.workflow.name}
+            </Link>
+          </h1>
+          <p className="text-xs md:text-sm text-muted-foreground">
+            {executionStatusLabels[execution.status]} &bull; Started{' '}
+            {formatDistanceToNow(execution.startedAt, { addSuffix: true })}{' '}
+            &bull; Took {formatDuration(execution.durationMs)} &bull;{' '}
+            {triggerTypeLabels[execution.triggerType] ?? execution.triggerType}
+            {execution.parentExecution && (
+              <>
+                {' '}
+                from{' '}
+                <Link
+                  href={`/executions/${execution.parentExecution.id}`}
+                  prefetch
+                  className="hover:underline"
+                >
+                  {execution.parentExecution.workflow.name}
+                </Link>
+              </>
+            )}
+            {execution.retryOfExecutionId && (
+              <>
+                {' '}
+                &bull;{' '}
+                <Link
+                  href={`/executions/${execution.retryOfExecutionId}`}
+                  prefetch
+                  className="hover:underline"
+                >
+                  Retry of a failed execution
+                </Link>
+              </>
+            )}
+            {latestRetry && (
+              <>
+                {' '}
+                &bull;{' '}
+                <Link
+                  href={`/executions/${latestRetry.id}`}
+                  prefetch
+                  className="hover:underline"
+                >
+                  Retried ({executionStatusLabels[latestRetry.status]})
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+        {execution.status === ExecutionStatus.RUNNING && (
+          <div className="ml-auto">
+            <CancelExecutionButton executionId={execution.id} />
+          </div>
+        )}
+        {/* A retried execution is retried again through its latest retry,
+            executed steps from the editor */}
+        {execution.status === ExecutionStatus.ERROR &&
+          !latestRetry &&
+          !execution.partialNodeId && (
+            <div className="ml-auto">
+              <RetryExecutionButton executionId={execution.id} />
+            </div>
+          )}
+      </div>
+      {waiting.map((nodeExecution) => {
+        const approval = execution.approvals.find(
+          (approval) =>
+            approval.nodeId === nodeExecution.nodeId &&
+            approval.runIndex === nodeExecution.runIndex
+        );
+
+        return approval ? (
+          <Alert key={nodeExecution.id}>
+            <AlertTitle>Waiting for approval</AlertTitle>
+            <AlertDescription>
+              <p>
+                {getNodeLabel(nodeExecution)} expires on{' '}
+                {format(approval.expiresAt, 'PPpp')}:{' '}
+                <a href={approval.approveUrl} className="underline">
+                  Approve
+                </a>{' '}
+                or{' '}
+                <a href={approval.rejectUrl} className="underline">
+                  Reject
+                </a>
+              </p>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert key={nodeExecution.id}>
+            <AlertTitle>Waiting</AlertTitle>
+            <AlertDescription>
+              {getNodeLabel(nodeExecution)} resumes the execution{' '}
+              {nodeExecution.resumeAt
+                ? `on ${format(nodeExecution.resumeAt, 'PPpp')} (${formatDistanceToNow(nodeExecution.resumeAt, { addSuffix: true })})`
+                : 'later'}
+            </AlertDescription>
+          </Alert>
+        );
+      })}
+      {execution.error && (
+        <Alert variant="destructive">
+          <AlertTitle>Execution failed</AlertTitle>
+          <AlertDescription>{execution.error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+interface ExecutionTimelineProps {
+  execution: ExecutionData;
+  selectedNodeExecution: NodeExecutionData | null;
+  onNodeExecutionSelect: (nodeExecution: NodeExecutionData) => void;
+}
+
+/**
+ * Gantt-style view of when each node started and finished, relative to the
+ * whole execution
+ */
+function ExecutionTimeline({
+  execution,
+  selectedNodeExecution,
+  onNodeExecutionSelect,
+}: ExecutionTimelineProps) {
+  const start = execution.startedAt.getTime();
+  const end = (execution.finishedAt ?? new Date()).getTime();
+  const total = Math.max(end - start, 1);
+
+  if (execution.nodeExecutions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No nodes have been executed yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-y-1">
+      {execution.nodeExecutions.map((nodeExecution) => {
+        const nodeStart = nodeExecution.startedAt.getTime();
+        const nodeEnd = (nodeExecution.finishedAt ?? new Date()).getTime();
+        const left = ((nodeStart - start) / total) * 100;
+        const width = Math.max(((nodeEnd - nodeStart) / total) * 100, 0.5);
+
+        return (
+          <button
+            key={nodeExecution.id}
+            type="button"
+            onClick={() => onNodeExecutionSelect(nodeExecution)}
+            className={cn(
+              'grid grid-cols-[160px_1fr_80px] items-center gap-x-4 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent',
+              selectedNodeExecution?.id === nodeExecution.id && 'bg-accent'
+            )}
+          >
+            <span className="truncate font-medium">
+              {getNodeLabel(nodeExecution)}
+            </span>
+            <div className="relative h-3 rounded-sm bg-muted">
+              <div
+                className={cn(
+                  'absolute inset-y-0 rounded-sm',
+                  nodeExecutionStatusColors[nodeExecution.status]
+                )}
+                style={{ left: `${left}%`, width: `${width}%` }}
+              />
+            </div>
+            <span className="text-right text-xs text-muted-foreground">
+              {nodeExecutionStatusLabels[nodeExecution.status] ??
+                (nodeExecution.finishedAt
+                  ? formatDuration(nodeEnd - nodeStart)
+                  : 'Running')}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function JsonView({ value }: { value: unknown }) {
+  if (value === null || value === undefined) {
+    return <p className="text-sm text-muted-foreground">No data</p>;
+  }
+
+  return (
+    <pre className="overflow-auto rounded-md bg-muted p-3 font-mono text-xs">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+type ItemData = {
+  json: unknown;
+  binary?: Record<
+    string,
+    { mimeType: string; fileName?: string; data: string }
+  >;
+};
+
+const isItemList = (value: unknown): value is ItemData[] => {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => item && typeof item === 'object' && 'json' in item)
+  );
+};
+
+// Base64 takes 4 characters for every 3 bytes
+const formatBinarySize = (data: string) => {
+  const bytes = Math.floor((data.length * 3) / 4);
+
+  return bytes < 1024 ? `${bytes} B` : `${Math.round(bytes / 1024)} KB`;
+};
+
+function ItemsView({ items }: { items: ItemData[] }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">No items</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="flex flex-col gap-y-1">
+          <p className="text-xs font-medium text-muted-foreground">
+            Item {index + 1}
+          </p>
+          <JsonView value={item.json} />
+          {Object.entries(item.binary ?? {}).map(([key, file]) => (
+            <p key={key} className="text-xs text-muted-foreground">
+              <span className="font-mono">{key}</span>:{' '}
+              {file.fileName ?? 'file'} ({file.mimeType},{' '}
+              {formatBinarySize(file.data)})
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Items a node received, or the items it emitted per output. Node executions
+ * recorded before items existed hold plain objects.
+ */
+function NodeDataView({ value }: { value: unknown }) {
+  if (isItemList(value)) {
+    return <ItemsView items={value} />;
+  }
+
+  const outputs =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.entries(value)
+      : [];
+
+  if (outputs.length > 0 && outputs.every(([, items]) => isItemList(items))) {
+    return (
+      <div className="flex flex-col gap-y-4">
+        {outputs.map(([output, items]) => (
+          <div key={output} className="flex flex-col gap-y-2">
+            <p className="text-sm font-medium">
+              {output === NODE_HANDLES.MAIN_OUTPUT ? 'Output' : output}
+              <span className="ml-2 font-normal text-muted-foreground">
+                {items.length} {items.length === 1 ? 'item' : 'items'}
+              </span>
+            </p>
+            <ItemsView items={items} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return <JsonView value={value} />;
+}
+
+interface NodeExecutionInspectorProps {
+  nodeExecution: NodeExecutionData | null;
+  /** Sub-workflow runs started by the node */
+  childExecutions: ExecutionData['childExecutions'];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function NodeExecutionInspector({
+  nodeExecution,
+  childExecutions,
+  open,
+  onOpenChange,
+}: NodeExecutionInspectorProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {nodeExecution ? getNodeLabel(nodeExecution) : 'Node'}
+            {/* Nodes saved before variable names existed are named by type */}
+            {nodeExecution &&
+              nodeExecution.nodeName !== nodeExecution.nodeType && (
+                <span className="ml-2 font-mono text-sm font-normal text-muted-foreground">
+                  {nodeExecution.nodeName}
+                </span>
+              )}
+          </SheetTitle>
+          <SheetDescription>
+            {nodeExecution?.status === NodeExecutionStatus.SKIPPED
+              ? 'This node was skipped, none of its inputs received data.'
+              : nodeExecution?.reused
+              ? 'This node did not run, it emitted the output of an earlier execution or its pinned data.'
+              : nodeExecution?.status === NodeExecutionStatus.NOT_EXECUTED
+              ? 'This node was not executed, it is not connected to the trigger that started the run.'
+              : nodeExecution?.status === NodeExecutionStatus.WAITING &&
+                nodeExecution.resumeAt
+              ? `Started ${format(nodeExecution.startedAt, 'PPpp')} • Waiting until ${format(nodeExecution.resumeAt, 'PPpp')}`
+              : nodeExecution
+              ? `Started ${format(nodeExecution.startedAt, 'PPpp')}${
+                  nodeExecution.finishedAt
+                    ? ` • Took ${formatDuration(
+                        nodeExecution.finishedAt.getTime() -
+                          nodeExecution.startedAt.getTime()
+                      )}`
+                    : ''
+                }`
+              : 'This node was not executed.'}
+          </SheetDescription>
+        </SheetHeader>
+        {childExecutions.length > 0 && (
+          <div className="flex flex-col gap-y-1 px-4">
+            <p className="text-sm font-medium">Sub-workflow executions</p>
+            {childExecutions.map((childExecution) => (
+              <Link
+                key={childExecution.id}
+                href={`/executions/${childExecution.id}`}
+                prefetch
+                className="flex items-center gap-x-2 text-sm hover:underline"
+              >
+                <ExecutionStatusIcon
+                  status={childExecution.status}
+                  className="size-4"
+                />
+                {childExecution.workflow.name} &bull;{' '}
+                {format(childExecution.startedAt, 'PPpp')}
+              </Link>
+            ))}
+          </div>
+        )}
+        {nodeExecution?.status !== NodeExecutionStatus.SKIPPED &&
+          nodeExecution?.status !== NodeExecutionStatus.NOT_EXECUTED &&
+          nodeExecution && (
+          <Tabs
+            defaultValue={nodeExecution.error ? 'error' : 'output'}
+            className="px-4 pb-4"
+          >
+            <TabsList>
+              <TabsTrigger value="input">Input</TabsTrigger>
+              <TabsTrigger value="output">Output</TabsTrigger>
+              <TabsTrigger value="error" disabled={!nodeExecution.error}>
+                Error
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="input">
+              <NodeDataView value={nodeExecution.input} />
+            </TabsContent>
+            <TabsContent value="output">
+              <NodeDataView value={nodeExecution.output} />
+            </TabsContent>
+            <TabsContent value="error" className="flex flex-col gap-y-2">
+              <p className="text-sm font-medium text-red-700">
+                {nodeExecution.error}
+              </p>
+              {nodeExecution.errorStack && (
+                <pre className="overflow-auto rounded-md bg-muted p-3 font-mono text-xs">
+                  {nodeExecution.errorStack}
+                </pre>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export function ExecutionView({ executionId }: { executionId: string }) {
+  const { data: execution } = useSuspenseExecution(executionId);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Picked on the timeline, the canvas shows the last run of each node
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  // Runs are ordered by start, the last run of a node wins
+  const nodeExecutionsByNodeId = useMemo(
+    () =>
+      new Map(
+        execution.nodeExecutions.map((nodeExecution) => [
+          nodeExecution.nodeId,
+          nodeExecution,
+        ])
+      ),
+    [execution.nodeExecutions]
+  );
+
+  const getNodeStatus = useCallback(
+    (nodeId: string) => toNodeStatus(nodeExecutionsByNodeId.get(nodeId)?.status),
+    [nodeExecutionsByNodeId]
+  );
+
+  const selectedNodeExecution = selectedRunId
+    ? (execution.nodeExecutions.find(
+        (nodeExecution) => nodeExecution.id === selectedRunId
+      ) ?? null)
+    : selectedNodeId
+      ? (nodeExecutionsByNodeId.get(selectedNodeId) ?? null)
+      : null;
+
+  const handleNodeSelect = useCallback((nodeId: string) => {
+    setSelectedNodeId(nodeId);
+    setSelectedRunId(null);
+  }, []);
+
+  const handleNodeExecutionSelect = useCallback(
+    (nodeExecution: NodeExecutionData) => {
+      setSelectedNodeId(nodeExecution.nodeId);
+      setSelectedRunId(nodeExecution.id);
+    },
+    []
+  );
+
+  return (
+    <div className="p-4 md:px-10 md:py-6 h-full">
+      <div className="mx-auto w-full flex flex-col gap-y-6 h-full">
+        <ExecutionHeader execution={execution} />
+        <div className="h-[420px] rounded-md border bg-background">
+          <ExecutionCanvas
+            nodes={execution.nodes}
+            edges={execution.edges}
+            getNodeStatus={getNodeStatus}
+            onNodeSelect={handleNodeSelect}
+          />
+        </div>
+        <div className="flex flex-col gap-y-2">
+          <h2 className="font-medium">Timeline</h2>
+          <ExecutionTimeline
+            execution={execution}
+            selectedNodeExecution={selectedNodeExecution}
+            onNodeExecutionSelect={handleNodeExecutionSelect}
+          />
+        </div>
+      </div>
+      <NodeExecutionInspector
+        nodeExecution={selectedNodeExecution}
+        childExecutions={execution.childExecutions.filter(
+          (childExecution) => childExecution.parentNodeId === selectedNodeId
+        )}
+        open={!!selectedNodeId}
+        onOpenChange={(open) => !open && setSelectedNodeId(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import {
+  ArrowDownWideNarrowIcon,
+  ArrowUpNarrowWideIcon,
+  BanIcon,
+  CalendarIcon,
+  CheckCircle2Icon,
+  Loader2Icon,
+  SquareIcon,
+  XCircleIcon,
+  XIcon,
+} from 'lucide-react';
+import {
+  EmptyView,
+  EntityContainer,
+  EntityHeader,
+  EntityItem,
+  EntityList,
+  EntityPagination,
+  EntitySearch,
+  ErrorView,
+  LoadingView,
+} from '@/components/entity-components';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PAGINATION, TRIGGER_NODE_TYPES } from '@/config/constants';
+import { useEntitySearch } from '@/hooks/use-entity-search';
+import { ExecutionStatus, NodeType } from '@/lib/generated/prisma/enums';
+import { cn } from '@/lib/utils';
+import { useTRPC } from '@/trpc/client';
+import {
+  useCancelExecution,
+  useSuspenseExecutions,
+} from '../hooks/use-executions';
+import { useExecutionsParams } from '../hooks/use-executions-params';
+import { formatDuration } from '../lib/utils';
+
+const ALL = 'all';
+
+export const executionStatusLabels: Record<ExecutionStatus, string> = {
+  [ExecutionStatus.RUNNING]: 'Running',
+  [ExecutionStatus.SUCCESS]: 'Success',
+  [ExecutionStatus.ERROR]: 'Error',
+  [ExecutionStatus.CANCELLED]: 'Cancelled',
+};
+
+export const triggerTypeLabels: Partial<Record<NodeType, string>> = {
+  [NodeType.MANUAL_TRIGGER]: 'Manual',
+  [NodeType.ERROR_TRIGGER]: 'Error',
+  [NodeType.EXECUTE_WORKFLOW_TRIGGER]: 'Sub-workflow',
+};
+
+export function ExecutionStatusIcon({
+  status,
+  className,
+}: {
+  status: ExecutionStatus;
+  className?: string;
+}) {
+  switch (status) {
+    case ExecutionStatus.RUNNING:
+      return (
+        <Loader2Icon
+          className={cn('size-5 text-blue-700 animate-spin', className)}
+        />
+      );
+    case ExecutionStatus.SUCCESS:
+      return (
+        <CheckCircle2Icon className={cn('size-5 text-green-700', className)} />
+      );
+    case ExecutionStatus.ERROR:
+      return <XCircleIcon className={cn('size-5 text-red-700', className)} />;
+    case ExecutionStatus.CANCELLED:
+      return (
+        <BanIcon className={cn('size-5 text-muted-foreground', className)} />
+      );
+  }
+}
+
+/**
+ * Stops a running execution, rendered inside links so the click must not
+ * navigate
+ */
+export function CancelExecutionButton({
+  executionId,
+}: {
+  executionId: string;
+}) {
+  const cancelExecution = useCancelExecution();
+
+  const handleCancel = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    cancelExecution.mutate({ id: executionId });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={handleCancel}
+      disabled={cancelExecution.isPending}
+    >
+      <SquareIcon className="size-4" />
+      Cancel
+    </Button>
+  );
+}
+
+export function ExecutionsSearch() {
+  const [params, setParams] = useExecutionsParams();
+  const { searchValue, onSearchChange } = useEntitySearch({
+    params,
+    setParams,
+  });
+
+  return (
+    <EntitySearch
+      value={searchValue}
+      onChange={onSearchChange}
+      placeholder="Search workflows"
+    />
+  );
+}
+
+function ExecutionsDateRangeFilter() {
+  const [params, setParams] = useExecutionsParams();
+
+  const range: DateRange | undefined = params.from
+    ? { from: params.from, to: params.to ?? undefined }
+    : undefined;
+
+  const label = params.from
+    ? `${format(params.from, 'MMM d')}${
+        params.to ? ` – ${format(params.to, 'MMM d')}` : ''
+      }`
+    : 'Any date';
+
+  const handleSelect = (value: DateRange | undefined) => {
+    setParams({
+      from: value?.from ?? null,
+      to: value?.to ?? null,
+      page: PAGINATION.DEFAULT_PAGE,
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-background">
+          <CalendarIcon className="size-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={range}
+          onSelect={handleSelect}
+          numberOfMonths={2}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function ExecutionsFilters() {
+  const trpc = useTRPC();
+  const [params, setParams] = useExecutionsParams();
+
+  const workflows = useQuery(
+    trpc.workflows.getMany.queryOptions({
+      pageSize: PAGINATION.MAX_PAGE_SIZE,
+    })
+  );
+
+  const hasFilters =
+    !!params.workflowId ||
+    !!params.status ||
+    !!params.triggerType ||
+    !!params.from ||
+    !!params.to;
+
+  const handleClear = () => {
+    setParams({
+      workflowId: null,
+      status: null,
+      triggerType: null,
+      from: null,
+      to: null,
+      page: PAGINATION.DEFAULT_PAGE,
+    });
+  };
+
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2">
+      <Select
+        value={params.workflowId || ALL}
+        onValueChange={(value) =>
+          setParams({
+            workflowId: value === ALL ? null : value,
+            page: PAGINATION.DEFAULT_PAGE,
+          })
+        }
+      >
+        <SelectTrigger size="sm" className="w-[180px] bg-background">
+          <SelectValue placeholder="Workflow" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All workflows</SelectItem>
+          {workflows.data?.items.map((workflow) => (
+            <SelectItem key={workflow.id} value={workflow.id}>
+              {workflow.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={params.status ?? ALL}
+        onValueChange={(value) =>
+          setParams({
+            status: value === ALL ? null : (value as ExecutionStatus),
+            page: PAGINATION.DEFAULT_PAGE,
+          })
+        }
+      >
+        <SelectTrigger size="sm" className="w-[140px] bg-background">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any status</SelectItem>
+          {Object.values(ExecutionStatus).map((status) => (
+            <SelectItem key={status} value={status}>
+              {executionStatusLabels[status]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={params.triggerType ?? ALL}
+        onValueChange={(value) =>
+          setParams({
+            triggerType: value === ALL ? null : (value as NodeType),
+            page: PAGINATION.DEFAULT_PAGE,
+          })
+        }
+      >
+        <SelectTrigger size="sm" className="w-[140px] bg-background">
+          <SelectValue placeholder="Trigger" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any trigger</SelectItem>
+          {TRIGGER_NODE_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {triggerTypeLabels[type] ?? type}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ExecutionsDateRangeFilter />
+      <Select
+        value={params.sortBy}
+        onValueChange={(value) =>
+          setParams({
+            sortBy: value as typeof params.sortBy,
+            page: PAGINATION.DEFAULT_PAGE,
+          })
+        }
+      >
+        <SelectTrigger size="sm" className="w-[140px] bg-background">
+          <SelectValue placeholder="Sort by" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="startedAt">Start time</SelectItem>
+          <SelectItem value="duration">Duration</SelectItem>
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        className="size-8 bg-background"
+        onClick={() =>
+          setParams({
+            sortOrder: params.sortOrder === 'desc' ? 'asc' : 'desc',
+            page: PAGINATION.DEFAULT_PAGE,
+          })
+        }
+      >
+        {params.sortOrder === 'desc' ? (
+          <ArrowDownWideNarrowIcon className="size-4" />
+        ) : (
+          <ArrowUpNarrowWideIcon className="size-4" />
+        )}
+      </Button>
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={handleClear}>
+          <XIcon className="size-4" />
+          Clear
+        </Button>
+      )}
+      <ExecutionsSearch />
+    </div>
+  );
+}
+
+export function ExecutionsList() {
+  const executions = useSuspenseExecutions();
+
+  return (
+    <EntityList
+      items={executions.data.items}
+      getKey={(execution) => execution.id}
+      renderItem={(execution) => <ExecutionItem data={execution} />}
+      emptyView={<ExecutionsEmpty />}
+    />
+  );
+}
+
+export function ExecutionsHeader() {
+  return (
+    <EntityHeader
+      title="Executions"
+      description="View your workflow execution history"
+    />
+  );
+}
+
+export function ExecutionsPagination() {
+  const executions = useSuspenseExecutions();
+  const [params, setParams] = useExecutionsParams();
+
+  return (
+    <EntityPagination
+      disabled={executions.isFetching}
+      totalPages={executions.data.totalPages}
+      page={executions.data.page}
+      onPageChange={(page) => setParams({ ...params, page })}
+    />
+  );
+}
+
+export function ExecutionsContainer({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <EntityContainer
+      header={<ExecutionsHeader />}
+      search={<ExecutionsFilters />}
+      pagination={<ExecutionsPagination />}
+    >
+      {children}
+    </EntityContainer>
+  );
+}
+
+export function ExecutionsLoading() {
+  return <LoadingView message="Loading executions..." />;
+}
+
+export function ExecutionsError() {
+  return <ErrorView message="Error loading executions" />;
+}
+
+export function ExecutionsEmpty() {
+  return (
+    <EmptyView message="No executions found. Execute a workflow to see its runs here." />
+  );
+}
+
+type ExecutionItemData = ReturnType<
+  typeof useSuspenseExecutions
+>['data']['items'][number];
+
+export function ExecutionItem({ data }: { data: ExecutionItemData }) {
+  return (
+    <EntityItem
+      href={`/executions/${data.id}`}
+      title={data.workflow.name}
+      subtitle={
+        <>
+          {executionStatusLabels[data.status]} &bull; Started{' '}
+          {formatDistanceToNow(data.startedAt, { addSuffix: true })} &bull;
+          Took {formatDuration(data.durationMs)} &bull;{' '}
+          {triggerTypeLabels[data.triggerType] ?? data.triggerType}
+        </>
+      }
+      image={
+        <div className="size-8 flex items-center justify-center">
+          <ExecutionStatusIcon status={data.status} />
+        </div>
+      }
+      actions={
+        data.status === ExecutionStatus.RUNNING && (
+          <CancelExecutionButton executionId={data.id} />
+        )
+      }
+    />
+  );
+}
@@ -1,17 +1,151 @@
-import type { NodeExecutor } from '@/features/executions/types';
+import { NonRetriableError } from 'inngest';
+import type { BinaryData, NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  renderTemplate,
+  TemplateError,
+} from '@/features/executions/lib/templating';
 
-type HttpRequestData = Record<string, unknown>;
+type HttpRequestData = {
+  endpoint?: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: string;
+};
+
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH'];
+
+// Request Timeout and Too Many Requests, the same request may succeed later
+const RETRIABLE_CLIENT_STATUSES = [408, 429];
+
+const isTextContentType = (contentType: string) => {
+  return (
+    contentType.startsWith('text/') ||
+    contentType.includes('xml') ||
+    contentType.includes('javascript') ||
+    contentType.includes('x-www-form-urlencoded')
+  );
+};
+
+const getFileName = (response: Response) => {
+  const disposition = response.headers.get('content-disposition') ?? '';
+  const match = disposition.match(/filename="?([^";]+)"?/);
+
+  return match?.[1];
+};
+
+/**
+ * JSON and text bodies are parsed into `data`. Anything else (images, PDFs,
+ * ...) is attached to the item as its `data` binary.
+ */
+const parseResponseBody = async (
+  response: Response
+): Promise<{ data: unknown; binary?: Record<string, BinaryData> }> => {
+  const contentType = response.headers.get('content-type') ?? '';
+
+  if (contentType.includes('application/json')) {
+    return { data: await response.json() };
+  }
+
+  if (!contentType || isTextContentType(contentType)) {
+    return { data: await response.text() };
+  }
+
+  const content = Buffer.from(await response.arrayBuffer());
+
+  return {
+    data: null,
+    binary: {
+      data: {
+        mimeType: contentType.split(';')[0].trim(),
+        fileName: getFileName(response),
+        data: content.toString('base64'),
+      },
+    },
+  };
+};
 
 export const httpRequestExecutor: NodeExecutor<HttpRequestData> = async ({
+  data,
   nodeId,
   context,
   step,
+  signal,
 }) => {
-  // TODO: Publish "loading" state for http request
+  if (!data.endpoint) {
+    throw new NonRetriableError('HTTP Request node: endpoint is not configured');
+  }
+
+  const method = data.method || 'GET';
+
+  const render = (template: string, escape?: 'json') => {
+    try {
+      return renderTemplate(template, context, { escape });
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new NonRetriableError(`HTTP Request node: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  // Step ids are scoped to the node, nodes can run in parallel
+  const result = await step.run(`http-request:${nodeId}`, async () => {
+    const endpoint = render(data.endpoint!);
+
+    try {
+      new URL(endpoint);
+    } catch {
+      throw new NonRetriableError(
+        `HTTP Request node: "${endpoint}" is not a valid URL`
+      );
+    }
+
+    // Aborts the request once the node runs out of time
+    const options: RequestInit = { method, signal };
+
+    if (METHODS_WITH_BODY.includes(method) && data.body) {
+      // Plain values are escaped so they can sit inside JSON strings
+      const body = render(data.body, 'json');
+
+      try {
+        JSON.parse(body);
+      } catch {
+        throw new NonRetriableError(
+          'HTTP Request node: request body is not valid JSON'
+        );
+      }
+
+      options.body = body;
+      options.headers = { 'Content-Type': 'application/json' };
+    }
+
+    const response = await fetch(endpoint, options);
+    const { data: responseData, binary } = await parseResponseBody(response);
+
+    const httpResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      data: responseData,
+    };
+
+    if (!response.ok) {
+      const message = `HTTP Request node: ${method} ${endpoint} failed with ${response.status} ${response.statusText}`;
+
+      // Client errors will not go away by retrying the same request, except
+      // for timeouts and rate limits
+      if (
+        response.status < 500 &&
+        !RETRIABLE_CLIENT_STATUSES.includes(response.status)
+      ) {
+        throw new NonRetriableError(message);
+      }
 
-  const result = await step.run('http-request', async () => context);
+      throw new Error(message);
+    }
 
-  // TODO: Publish "success" state for http request
+    return { json: httpResponse, binary };
+  });
 
-  return result;
+  return emitOutput([result]);
 };
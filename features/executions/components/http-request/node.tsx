@@ -5,6 +5,7 @@ import { GlobeIcon } from 'lucide-react';
 import { memo, useState } from 'react';
 import { BaseExecutionNode } from '../base-execution-node';
 import HttpRequestDialog, { HttpRequestFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
 
 type HttpRequestNodeData = {
   endpoint?: string;
@@ -18,7 +19,7 @@ export const HttpRequestNode = memo((props: NodeProps<HttpRequestNodetype>) => {
   const [dialogOpen, setDialogOpen] = useState(false);
   const { setNodes } = useReactFlow();
 
-  const nodeStatus = 'initial';
+  const nodeStatus = useNodeStatus(props.id);
 
   const handleOpenSettings = () => setDialogOpen(true);
 
@@ -41,7 +42,7 @@ export const HttpRequestNode = memo((props: NodeProps<HttpRequestNodetype>) => {
 
   const nodeData = props.data;
   const description = nodeData?.endpoint
-    ? `${nodeData.method} || "GET"}: ${nodeData.endpoint}`
+    ? `${nodeData.method || 'GET'}: ${nodeData.endpoint}`
     : 'Not configured';
 
   return (
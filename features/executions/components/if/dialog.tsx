@@ -0,0 +1,163 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { PlusIcon, TrashIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CONDITION_COMBINATORS } from '@/features/executions/lib/conditions';
+import {
+  ConditionFields,
+  conditionSchema,
+  createCondition,
+} from '../condition-fields';
+
+const formSchema = z.object({
+  combinator: z.enum(CONDITION_COMBINATORS),
+  conditions: z.array(conditionSchema).min(1, 'Add at least one condition'),
+});
+
+export type IfFormValues = z.infer<typeof formSchema>;
+
+const getDefaults = (defaultValues: Partial<IfFormValues>): IfFormValues => ({
+  combinator: defaultValues.combinator || 'and',
+  conditions: defaultValues.conditions?.length
+    ? defaultValues.conditions
+    : [createCondition()],
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: IfFormValues) => void;
+  defaultValues?: Partial<IfFormValues>;
+}
+
+function IfDialog({ open, onOpenChange, onSubmit, defaultValues = {} }: Props) {
+  const form = useForm<IfFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'conditions',
+    keyName: 'fieldId',
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const handleSubmit = (values: IfFormValues) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>If</DialogTitle>
+          <DialogDescription>
+            Route data to the true or false output depending on conditions.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="combinator"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Combine conditions with</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="and">AND (all must pass)</SelectItem>
+                      <SelectItem value="or">OR (any must pass)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="space-y-3">
+              <FormLabel>Conditions</FormLabel>
+              {fields.map((item, index) => (
+                <div
+                  key={item.fieldId}
+                  className="grid grid-cols-[1fr_auto_1fr_auto] items-start gap-2 rounded-md border p-3"
+                >
+                  <ConditionFields name={`conditions.${index}`} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={fields.length === 1}
+                    onClick={() => remove(index)}
+                  >
+                    <TrashIcon className="size-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append(createCondition())}
+              >
+                <PlusIcon className="size-4" />
+                Add condition
+              </Button>
+              <FormDescription>
+                Use {'{{variables}}'} to compare values from previous nodes.
+                Regex values can be written as {'/pattern/flags'}.
+              </FormDescription>
+            </div>
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default IfDialog;
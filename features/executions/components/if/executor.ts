@@ -0,0 +1,39 @@
+import { NonRetriableError } from 'inngest';
+import type { NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  ConditionError,
+  type ConditionGroup,
+  evaluateConditionGroup,
+} from '@/features/executions/lib/conditions';
+import { TemplateError } from '@/features/executions/lib/templating';
+import { IF_OUTPUTS } from '@/config/constants';
+
+type IfData = Partial<ConditionGroup>;
+
+export const ifExecutor: NodeExecutor<IfData> = async ({
+  data,
+  context,
+  items,
+}) => {
+  if (!data.conditions?.length) {
+    throw new NonRetriableError('If node: no conditions are configured');
+  }
+
+  let passed: boolean;
+
+  // Conditions only read the context, so they are evaluated outside of a step
+  try {
+    passed = evaluateConditionGroup(
+      { combinator: data.combinator ?? 'and', conditions: data.conditions },
+      context
+    );
+  } catch (error) {
+    if (error instanceof ConditionError || error instanceof TemplateError) {
+      throw new NonRetriableError(`If node: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return emitOutput(items, passed ? IF_OUTPUTS.TRUE : IF_OUTPUTS.FALSE);
+};
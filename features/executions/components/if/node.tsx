@@ -0,0 +1,77 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { SplitIcon } from 'lucide-react';
+import { memo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import IfDialog, { IfFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+import { IF_OUTPUTS } from '@/config/constants';
+
+type IfNodeData = Partial<IfFormValues>;
+
+type IfNodeType = Node<IfNodeData>;
+
+const outputs = [
+  { id: IF_OUTPUTS.TRUE, label: 'true' },
+  { id: IF_OUTPUTS.FALSE, label: 'false' },
+];
+
+export const IfNode = memo((props: NodeProps<IfNodeType>) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { setNodes } = useReactFlow();
+
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  const handleSubmit = (values: IfFormValues) => {
+    setNodes((nodes) =>
+      nodes.map((node) => {
+        if (node.id === props.id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...values,
+            },
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const nodeData = props.data;
+  const conditionCount = nodeData?.conditions?.length ?? 0;
+  const description =
+    conditionCount > 0
+      ? `${conditionCount} condition${conditionCount === 1 ? '' : 's'} (${
+          nodeData.combinator === 'or' ? 'OR' : 'AND'
+        })`
+      : 'Not configured';
+
+  return (
+    <>
+      <IfDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+        defaultValues={nodeData}
+      />
+      <BaseExecutionNode
+        {...props}
+        id={props.id}
+        icon={SplitIcon}
+        name="If"
+        status={nodeStatus}
+        description={description}
+        outputs={outputs}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+IfNode.displayName = 'IfNode';
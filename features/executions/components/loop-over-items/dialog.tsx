@@ -0,0 +1,139 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { LOOP_BATCH_SIZE } from '@/features/executions/lib/loop';
+
+const formSchema = z.object({
+  listPath: z.string().optional(),
+  batchSize: z.number().int().min(LOOP_BATCH_SIZE.MIN).max(LOOP_BATCH_SIZE.MAX),
+});
+
+export type LoopOverItemsFormValues = z.infer<typeof formSchema>;
+
+const getDefaults = (
+  defaultValues: Partial<LoopOverItemsFormValues>
+): LoopOverItemsFormValues => ({
+  listPath: defaultValues.listPath || '',
+  batchSize: defaultValues.batchSize || LOOP_BATCH_SIZE.DEFAULT,
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: LoopOverItemsFormValues) => void;
+  defaultValues?: Partial<LoopOverItemsFormValues>;
+}
+
+function LoopOverItemsDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues = {},
+}: Props) {
+  const form = useForm<LoopOverItemsFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const handleSubmit = (values: LoopOverItemsFormValues) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Loop Over Items</DialogTitle>
+          <DialogDescription>
+            Run the nodes connected to the loop output once per batch of items,
+            then continue from the done output.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="listPath"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Items path</FormLabel>
+                  <FormControl>
+                    <Input placeholder="httpResponse.data" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Optional path of a list whose values are looped over, leave
+                    empty to loop over the items this node receives. The nodes
+                    of the loop receive every batch as their items, with the
+                    batch number as {'{{$runIndex}}'}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="batchSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Batch size</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={LOOP_BATCH_SIZE.MIN}
+                      max={LOOP_BATCH_SIZE.MAX}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Items per batch. The items that reached the end of every
+                    batch are passed on from the done output once all are done
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default LoopOverItemsDialog;
@@ -0,0 +1,45 @@
+import { NonRetriableError } from 'inngest';
+import type { NodeExecutor, WorkflowItem } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  LOOP_BATCH_SIZE,
+  LoopError,
+  splitIntoBatches,
+} from '@/features/executions/lib/loop';
+import { TemplateError } from '@/features/executions/lib/templating';
+import { LOOP_OUTPUTS } from '@/config/constants';
+
+type LoopOverItemsData = {
+  listPath?: string;
+  batchSize?: number;
+};
+
+export const loopOverItemsExecutor: NodeExecutor<LoopOverItemsData> = async ({
+  data,
+  context,
+  items,
+  runSubgraph,
+}) => {
+  let batches: WorkflowItem[][];
+
+  try {
+    batches = splitIntoBatches(items, context, {
+      listPath: data.listPath,
+      batchSize: data.batchSize ?? LOOP_BATCH_SIZE.DEFAULT,
+    });
+  } catch (error) {
+    if (error instanceof LoopError || error instanceof TemplateError) {
+      throw new NonRetriableError(`Loop Over Items node: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const results: WorkflowItem[] = [];
+
+  // One batch at a time, the runs of the loop nodes are numbered in order
+  for (const batch of batches) {
+    results.push(...(await runSubgraph(LOOP_OUTPUTS.LOOP, batch)));
+  }
+
+  return emitOutput(results, LOOP_OUTPUTS.DONE);
+};
@@ -0,0 +1,73 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { RepeatIcon } from 'lucide-react';
+import { memo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import LoopOverItemsDialog, { LoopOverItemsFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+import { LOOP_OUTPUTS } from '@/config/constants';
+
+type LoopOverItemsNodeData = Partial<LoopOverItemsFormValues>;
+
+type LoopOverItemsNodeType = Node<LoopOverItemsNodeData>;
+
+const outputs = [
+  { id: LOOP_OUTPUTS.LOOP, label: 'loop' },
+  { id: LOOP_OUTPUTS.DONE, label: 'done' },
+];
+
+export const LoopOverItemsNode = memo(
+  (props: NodeProps<LoopOverItemsNodeType>) => {
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const { setNodes } = useReactFlow();
+
+    const nodeStatus = useNodeStatus(props.id);
+
+    const handleOpenSettings = () => setDialogOpen(true);
+
+    const handleSubmit = (values: LoopOverItemsFormValues) => {
+      setNodes((nodes) =>
+        nodes.map((node) => {
+          if (node.id === props.id) {
+            return {
+              ...node,
+              data: {
+                ...node.data,
+                ...values,
+              },
+            };
+          }
+          return node;
+        })
+      );
+    };
+
+    const nodeData = props.data;
+    const description = `${nodeData?.listPath || 'Items'} in batches of ${nodeData?.batchSize ?? 1}`;
+
+    return (
+      <>
+        <LoopOverItemsDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          onSubmit={handleSubmit}
+          defaultValues={nodeData}
+        />
+        <BaseExecutionNode
+          {...props}
+          id={props.id}
+          icon={RepeatIcon}
+          name="Loop Over Items"
+          status={nodeStatus}
+          description={description}
+          outputs={outputs}
+          onSettings={handleOpenSettings}
+          onDoubleClick={handleOpenSettings}
+        />
+      </>
+    );
+  }
+);
+
+LoopOverItemsNode.displayName = 'LoopOverItemsNode';
@@ -0,0 +1,234 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  MERGE_INPUT_COUNT,
+  MERGE_MODES,
+  type MergeMode,
+} from '@/features/executions/lib/merge';
+
+const formSchema = z
+  .object({
+    mode: z.enum(MERGE_MODES),
+    inputCount: z
+      .number()
+      .int()
+      .min(MERGE_INPUT_COUNT.MIN)
+      .max(MERGE_INPUT_COUNT.MAX),
+    listPath: z.string().optional(),
+    matchKey: z.string().optional(),
+  })
+  .refine((values) => values.mode !== 'matchByKey' || !!values.matchKey, {
+    message: 'Key is required to match items',
+    path: ['matchKey'],
+  });
+
+export type MergeFormValues = z.infer<typeof formSchema>;
+
+export const mergeModeLabels: Record<MergeMode, string> = {
+  append: 'Append',
+  matchByKey: 'Match by key',
+  matchByPosition: 'Match by position',
+  waitForEither: 'Wait for either',
+};
+
+const mergeModeDescriptions: Record<MergeMode, string> = {
+  append: 'Items of every input, one input after the other',
+  matchByKey: 'Items with the same key in every input, merged together',
+  matchByPosition: 'First items merged together, then second items, ...',
+  waitForEither:
+    'Runs as soon as one input receives data and passes it on, later inputs are ignored',
+};
+
+const inputCounts = Array.from(
+  { length: MERGE_INPUT_COUNT.MAX - MERGE_INPUT_COUNT.MIN + 1 },
+  (_, index) => MERGE_INPUT_COUNT.MIN + index
+);
+
+const getDefaults = (
+  defaultValues: Partial<MergeFormValues>
+): MergeFormValues => ({
+  mode: defaultValues.mode || 'append',
+  inputCount: defaultValues.inputCount || MERGE_INPUT_COUNT.MIN,
+  listPath: defaultValues.listPath || '',
+  matchKey: defaultValues.matchKey || '',
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: MergeFormValues) => void;
+  defaultValues?: Partial<MergeFormValues>;
+}
+
+function MergeDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues = {},
+}: Props) {
+  const form = useForm<MergeFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const watchMode = form.watch('mode');
+
+  const handleSubmit = (values: MergeFormValues) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge</DialogTitle>
+          <DialogDescription>
+            Combine the data of several branches once they have all finished.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mode</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MERGE_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {mergeModeLabels[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {mergeModeDescriptions[watchMode]}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="inputCount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Number of inputs</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(Number(value))}
+                    value={String(field.value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {inputCounts.map((count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {watchMode !== 'waitForEither' && (
+              <FormField
+                control={form.control}
+                name="listPath"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Items path</FormLabel>
+                    <FormControl>
+                      <Input placeholder="data" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Path of a list in every item whose values become the items
+                      to merge. Leave empty to merge the items themselves
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {watchMode === 'matchByKey' && (
+              <FormField
+                control={form.control}
+                name="matchKey"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Key</FormLabel>
+                    <FormControl>
+                      <Input placeholder="id" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Path of the value items are matched on, e.g. id or
+                      user.email
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default MergeDialog;
@@ -0,0 +1,61 @@
+import { NonRetriableError } from 'inngest';
+import type { NodeExecutor, WorkflowItem } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  combineInputs,
+  getMergeInputHandles,
+  MERGE_INPUT_COUNT,
+  MergeError,
+  type MergeMode,
+} from '@/features/executions/lib/merge';
+import { TemplateError } from '@/features/executions/lib/templating';
+
+type MergeData = {
+  mode?: MergeMode;
+  inputCount?: number;
+  listPath?: string;
+  matchKey?: string;
+};
+
+export const mergeExecutor: NodeExecutor<MergeData> = async ({
+  data,
+  inputs,
+}) => {
+  const mode = data.mode ?? 'append';
+  const handles = getMergeInputHandles(
+    data.inputCount ?? MERGE_INPUT_COUNT.MIN
+  );
+  const received = handles.filter((handle) => inputs[handle]);
+
+  // The engine runs the node once every upstream node finished, inputs
+  // without data are on a branch that was not taken. In `waitForEither` mode
+  // it runs as soon as one input received data, the others have none yet.
+  if (received.length === 0) {
+    return { outputs: {} };
+  }
+
+  if (mode === 'waitForEither') {
+    return emitOutput(inputs[received[0]]);
+  }
+
+  // Matching needs data on every input, like an inner join
+  if (mode !== 'append' && received.length < handles.length) {
+    return { outputs: {} };
+  }
+
+  let merged: WorkflowItem[];
+
+  try {
+    merged = combineInputs(
+      received.map((handle) => inputs[handle]),
+      { mode, listPath: data.listPath, matchKey: data.matchKey }
+    );
+  } catch (error) {
+    if (error instanceof MergeError || error instanceof TemplateError) {
+      throw new NonRetriableError(`Merge node: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return emitOutput(merged);
+};
@@ -0,0 +1,90 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { MergeIcon } from 'lucide-react';
+import { memo, useMemo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import MergeDialog, { MergeFormValues, mergeModeLabels } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+import {
+  getMergeInputHandles,
+  MERGE_INPUT_COUNT,
+} from '@/features/executions/lib/merge';
+
+type MergeNodeData = Partial<MergeFormValues>;
+
+type MergeNodeType = Node<MergeNodeData>;
+
+const getInputs = (data?: MergeNodeData) => {
+  return getMergeInputHandles(data?.inputCount ?? MERGE_INPUT_COUNT.MIN).map(
+    (id, index) => ({ id, label: String(index + 1) })
+  );
+};
+
+export const MergeNode = memo((props: NodeProps<MergeNodeType>) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { setNodes, setEdges } = useReactFlow();
+
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  const handleSubmit = (values: MergeFormValues) => {
+    setNodes((nodes) =>
+      nodes.map((node) => {
+        if (node.id === props.id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...values,
+            },
+          };
+        }
+        return node;
+      })
+    );
+
+    // Drop the connections of inputs that were removed
+    const inputIds = new Set(getInputs(values).map((input) => input.id));
+
+    setEdges((edges) =>
+      edges.filter(
+        (edge) =>
+          edge.target !== props.id ||
+          !edge.targetHandle ||
+          inputIds.has(edge.targetHandle)
+      )
+    );
+  };
+
+  const nodeData = props.data;
+  const inputs = useMemo(() => getInputs(nodeData), [nodeData]);
+  const description = nodeData?.mode
+    ? `${mergeModeLabels[nodeData.mode]}: ${inputs.length} inputs`
+    : 'Not configured';
+
+  return (
+    <>
+      <MergeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+        defaultValues={nodeData}
+      />
+      <BaseExecutionNode
+        {...props}
+        id={props.id}
+        icon={MergeIcon}
+        name="Merge"
+        status={nodeStatus}
+        description={description}
+        inputs={inputs}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+MergeNode.displayName = 'MergeNode';
@@ -0,0 +1,281 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { EXECUTION_TIMEOUT, NODE_RETRY } from '@/config/constants';
+import type { NodeSettings } from '../types';
+
+const formSchema = z.object({
+  retry: z.object({
+    maxRetries: z.number().int().min(0).max(NODE_RETRY.MAX_RETRIES),
+    backoff: z.enum(['fixed', 'exponential']),
+    delaySeconds: z.number().int().min(0).max(NODE_RETRY.MAX_DELAY_SECONDS),
+  }),
+  continueOnFail: z.boolean(),
+  errorOutput: z.boolean(),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(EXECUTION_TIMEOUT.MAX_NODE_SECONDS),
+  runOnceForAllItems: z.boolean(),
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: NodeSettings) => void;
+  defaultValues: NodeSettings;
+  /** False for node types that always handle every item in one call */
+  canRunPerItem: boolean;
+}
+
+/**
+ * Item handling, retry and error handling settings, available on every
+ * execution node
+ */
+export function NodeSettingsDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues,
+  canRunPerItem,
+}: Props) {
+  const form = useForm<NodeSettings>({
+    resolver: zodResolver(formSchema),
+    defaultValues,
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(defaultValues);
+    }
+  }, [open, defaultValues, form]);
+
+  const watchMaxRetries = form.watch('retry.maxRetries');
+
+  const handleSubmit = (values: NodeSettings) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Node settings</DialogTitle>
+          <DialogDescription>
+            Choose how this node runs and what happens when it fails.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            {canRunPerItem && (
+              <FormField
+                control={form.control}
+                name="runOnceForAllItems"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex flex-row items-center gap-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked === true)
+                          }
+                        />
+                      </FormControl>
+                      <FormLabel>Run once for all items</FormLabel>
+                    </div>
+                    <FormDescription>
+                      Handle every item in a single run instead of running once
+                      per item
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="timeoutSeconds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Timeout (seconds)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={EXECUTION_TIMEOUT.MAX_NODE_SECONDS}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Abort the node when an attempt takes longer than this, 0
+                    for no limit
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="retry.maxRetries"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Retries</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={NODE_RETRY.MAX_RETRIES}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    How many more times to run the node after it fails
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {watchMaxRetries > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="retry.delaySeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Delay (seconds)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={NODE_RETRY.MAX_DELAY_SECONDS}
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(e.target.valueAsNumber)
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="retry.backoff"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Backoff</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="fixed">Fixed</SelectItem>
+                          <SelectItem value="exponential">
+                            Exponential
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="continueOnFail"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex flex-row items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true)
+                        }
+                      />
+                    </FormControl>
+                    <FormLabel>Continue on fail</FormLabel>
+                  </div>
+                  <FormDescription>
+                    Pass the items on with an {'{{$json.error}}'} field instead
+                    of failing the workflow
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="errorOutput"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex flex-row items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true)
+                        }
+                      />
+                    </FormControl>
+                    <FormLabel>Error output</FormLabel>
+                  </div>
+                  <FormDescription>
+                    Add an error output, failures leave through it instead of
+                    the main output
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
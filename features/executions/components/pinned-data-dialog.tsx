@@ -0,0 +1,146 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { getPinnedItems, parsePinnedData } from '../lib/pinned-data';
+
+const formSchema = z.object({
+  pinnedData: z.string().superRefine((text, ctx) => {
+    if (!text.trim()) {
+      return;
+    }
+
+    try {
+      parsePinnedData(text);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: (error as Error).message });
+    }
+  }),
+});
+
+type PinnedDataFormValues = z.infer<typeof formSchema>;
+
+const getDefaults = (data: unknown): PinnedDataFormValues => {
+  const items = getPinnedItems(data);
+
+  return {
+    pinnedData: items
+      ? JSON.stringify(
+          items.map((item) => item.json),
+          null,
+          2
+        )
+      : '',
+  };
+};
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodeId: string;
+  data: unknown;
+}
+
+/**
+ * Pin the items a node emits when single steps are executed, so the nodes
+ * after it can be tested without running it
+ */
+export function PinnedDataDialog({ open, onOpenChange, nodeId, data }: Props) {
+  const { setNodes } = useReactFlow();
+
+  const form = useForm<PinnedDataFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(data),
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(data));
+    }
+  }, [open, data, form]);
+
+  const handleSubmit = (values: PinnedDataFormValues) => {
+    const pinnedData = values.pinnedData.trim()
+      ? parsePinnedData(values.pinnedData)
+      : undefined;
+
+    setNodes((currentNodes) =>
+      currentNodes.map((node) =>
+        node.id === nodeId
+          ? { ...node, data: { ...node.data, pinnedData } }
+          : node
+      )
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pinned data</DialogTitle>
+          <DialogDescription>
+            When a step is executed, this node emits these items instead of
+            running. Executing the whole workflow ignores them.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="pinnedData"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Items</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={
+                        '[\n  { "id": 1, "email": "a@example.com" }\n]'
+                      }
+                      className="min-h-[160px] font-mono text-sm"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    A JSON object or a list of objects, one per item. Leave
+                    empty to unpin.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { createId } from '@paralleldrive/cuid2';
+import { PlusIcon, TrashIcon } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { Condition } from '@/features/executions/lib/conditions';
+import {
+  ConditionFields,
+  conditionSchema,
+  createCondition,
+} from '../condition-fields';
+
+const formSchema = z
+  .object({
+    mode: z.enum(['rules', 'expression']),
+    rules: z
+      .array(
+        z.object({
+          id: z.string(),
+          label: z.string().trim().min(1, 'Output name is required'),
+          condition: z.custom<Condition>(),
+        })
+      )
+      .min(1, 'Add at least one output'),
+    expression: z.string().optional(),
+    allMatchingOutputs: z.boolean(),
+    fallbackOutput: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.mode === 'expression') {
+      if (!values.expression) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'Expression is required',
+          path: ['expression'],
+        });
+      }
+      return;
+    }
+
+    // Conditions are only used, and validated, in rules mode
+    values.rules.forEach((rule, index) => {
+      const result = conditionSchema.safeParse(rule.condition);
+
+      for (const issue of result.error?.issues ?? []) {
+        ctx.addIssue({
+          code: 'custom',
+          message: issue.message,
+          path: ['rules', index, 'condition', ...issue.path],
+        });
+      }
+    });
+  });
+
+export type SwitchFormValues = z.infer<typeof formSchema>;
+
+const createRule = (index: number): SwitchFormValues['rules'][number] => ({
+  id: createId(),
+  label: `Output ${index + 1}`,
+  condition: createCondition(),
+});
+
+const getDefaults = (
+  defaultValues: Partial<SwitchFormValues>
+): SwitchFormValues => ({
+  mode: defaultValues.mode || 'rules',
+  rules: defaultValues.rules?.length ? defaultValues.rules : [createRule(0)],
+  expression: defaultValues.expression || '',
+  allMatchingOutputs: defaultValues.allMatchingOutputs ?? false,
+  fallbackOutput: defaultValues.fallbackOutput ?? false,
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: SwitchFormValues) => void;
+  defaultValues?: Partial<SwitchFormValues>;
+}
+
+function SwitchDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues = {},
+}: Props) {
+  const form = useForm<SwitchFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'rules',
+    keyName: 'fieldId',
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const watchMode = form.watch('mode');
+  const isRulesMode = watchMode === 'rules';
+
+  const handleSubmit = (values: SwitchFormValues) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Switch</DialogTitle>
+          <DialogDescription>
+            Route data to one of several outputs.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mode</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="rules">Rules</SelectItem>
+                      <SelectItem value="expression">Expression</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {isRulesMode
+                      ? 'Each output has a condition, data goes to the first output that matches'
+                      : 'The expression returns the index (from 0) or the name of the output'}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {!isRulesMode && (
+              <FormField
+                control={form.control}
+                name="expression"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expression</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="{{httpResponse.data.type}}"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <div className="space-y-3">
+              <FormLabel>Outputs</FormLabel>
+              {fields.map((item, index) => (
+                <div
+                  key={item.fieldId}
+                  className="flex flex-col gap-2 rounded-md border p-3"
+                >
+                  <div className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`rules.${index}.label`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="Output name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={fields.length === 1}
+                      onClick={() => remove(index)}
+                    >
+                      <TrashIcon className="size-4" />
+                    </Button>
+                  </div>
+                  {isRulesMode && (
+                    <div className="grid grid-cols-[1fr_auto_1fr] items-start gap-2">
+                      <ConditionFields name={`rules.${index}.condition`} />
+                    </div>
+                  )}
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append(createRule(fields.length))}
+              >
+                <PlusIcon className="size-4" />
+                Add output
+              </Button>
+            </div>
+            {isRulesMode && (
+              <FormField
+                control={form.control}
+                name="allMatchingOutputs"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true)
+                        }
+                      />
+                    </FormControl>
+                    <FormLabel>Send data to all matching outputs</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="fallbackOutput"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) =>
+                        field.onChange(checked === true)
+                      }
+                    />
+                  </FormControl>
+                  <FormLabel>
+                    Add a fallback output for data that matches no output
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SwitchDialog;
@@ -0,0 +1,93 @@
+import { NonRetriableError } from 'inngest';
+import type { NodeExecutor, NodeOutputs } from '@/features/executions/types';
+import {
+  type Condition,
+  ConditionError,
+  evaluateCondition,
+} from '@/features/executions/lib/conditions';
+import {
+  resolveTemplateValue,
+  TemplateError,
+} from '@/features/executions/lib/templating';
+import { SWITCH_FALLBACK_OUTPUT } from '@/config/constants';
+
+type SwitchRule = {
+  id: string;
+  label: string;
+  condition?: Condition;
+};
+
+type SwitchData = {
+  mode?: 'rules' | 'expression';
+  rules?: SwitchRule[];
+  expression?: string;
+  allMatchingOutputs?: boolean;
+  fallbackOutput?: boolean;
+};
+
+/**
+ * Pick the rules whose output receives the data. In expression mode the
+ * expression resolves to an output index or label.
+ */
+const matchRules = (
+  data: SwitchData,
+  rules: SwitchRule[],
+  context: Record<string, unknown>
+) => {
+  if (data.mode === 'expression') {
+    const value = resolveTemplateValue(data.expression ?? '', context, {
+      strict: false,
+    });
+
+    const rule =
+      typeof value === 'number'
+        ? rules[value]
+        : rules.find((rule) => rule.label === String(value));
+
+    return rule ? [rule] : [];
+  }
+
+  const matching = rules.filter(
+    (rule) => rule.condition && evaluateCondition(rule.condition, context)
+  );
+
+  return data.allMatchingOutputs ? matching : matching.slice(0, 1);
+};
+
+export const switchExecutor: NodeExecutor<SwitchData> = async ({
+  data,
+  context,
+  items,
+}) => {
+  const rules = data.rules ?? [];
+
+  if (rules.length === 0) {
+    throw new NonRetriableError('Switch node: no outputs are configured');
+  }
+
+  if (data.mode === 'expression' && !data.expression) {
+    throw new NonRetriableError('Switch node: expression is not configured');
+  }
+
+  let matching: SwitchRule[];
+
+  // Rules only read the context, so they are evaluated outside of a step
+  try {
+    matching = matchRules(data, rules, context);
+  } catch (error) {
+    if (error instanceof ConditionError || error instanceof TemplateError) {
+      throw new NonRetriableError(`Switch node: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const outputs: NodeOutputs = Object.fromEntries(
+    matching.map((rule) => [rule.id, items])
+  );
+
+  if (matching.length === 0 && data.fallbackOutput) {
+    outputs[SWITCH_FALLBACK_OUTPUT] = items;
+  }
+
+  return { outputs };
+};
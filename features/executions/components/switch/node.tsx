@@ -0,0 +1,101 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { RouteIcon } from 'lucide-react';
+import { memo, useMemo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import SwitchDialog, { SwitchFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+import { NODE_HANDLES, SWITCH_FALLBACK_OUTPUT } from '@/config/constants';
+import { getNodeSettings } from '@/features/executions/lib/node-settings';
+
+type SwitchNodeData = Partial<SwitchFormValues>;
+
+type SwitchNodeType = Node<SwitchNodeData>;
+
+const getOutputs = (data?: SwitchNodeData) => {
+  const outputs = (data?.rules ?? []).map((rule) => ({
+    id: rule.id,
+    label: rule.label,
+  }));
+
+  if (data?.fallbackOutput) {
+    outputs.push({ id: SWITCH_FALLBACK_OUTPUT, label: 'fallback' });
+  }
+
+  return outputs;
+};
+
+export const SwitchNode = memo((props: NodeProps<SwitchNodeType>) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { setNodes, setEdges } = useReactFlow();
+
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  const handleSubmit = (values: SwitchFormValues) => {
+    setNodes((nodes) =>
+      nodes.map((node) => {
+        if (node.id === props.id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...values,
+            },
+          };
+        }
+        return node;
+      })
+    );
+
+    // Drop the connections of outputs that were removed, the error output is
+    // kept for as long as the error handling settings enable it
+    const outputIds = new Set(getOutputs(values).map((output) => output.id));
+
+    if (getNodeSettings(props.data).errorOutput) {
+      outputIds.add(NODE_HANDLES.ERROR_OUTPUT);
+    }
+
+    setEdges((edges) =>
+      edges.filter(
+        (edge) =>
+          edge.source !== props.id ||
+          (!!edge.sourceHandle && outputIds.has(edge.sourceHandle))
+      )
+    );
+  };
+
+  const nodeData = props.data;
+  const outputs = useMemo(() => getOutputs(nodeData), [nodeData]);
+  const description = nodeData?.rules?.length
+    ? `${nodeData.mode === 'expression' ? 'Expression' : 'Rules'}: ${
+        nodeData.rules.length
+      } output${nodeData.rules.length === 1 ? '' : 's'}`
+    : 'Not configured';
+
+  return (
+    <>
+      <SwitchDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+        defaultValues={nodeData}
+      />
+      <BaseExecutionNode
+        {...props}
+        id={props.id}
+        icon={RouteIcon}
+        name="Switch"
+        status={nodeStatus}
+        description={description}
+        outputs={outputs}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+SwitchNode.displayName = 'SwitchNode';
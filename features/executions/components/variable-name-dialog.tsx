@@ -0,0 +1,147 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect, useMemo, useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  getSavedVariableName,
+  getVariableNameError,
+} from '@/features/workflows/lib/variable-names';
+
+type VariableNameFormValues = { variableName: string };
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodeId: string;
+  variableName: string;
+}
+
+/**
+ * Rename a node, its output is found under the name in the templates of the
+ * nodes after it
+ */
+export function VariableNameDialog({
+  open,
+  onOpenChange,
+  nodeId,
+  variableName,
+}: Props) {
+  const { setNodes, getNodes } = useReactFlow();
+  const [takenNames, setTakenNames] = useState<string[]>([]);
+
+  const formSchema = useMemo(
+    () =>
+      z.object({
+        variableName: z.string().superRefine((name, ctx) => {
+          const error = takenNames.includes(name)
+            ? 'Another node already has this name'
+            : getVariableNameError(name);
+
+          if (error) {
+            ctx.addIssue({ code: 'custom', message: error });
+          }
+        }),
+      }),
+    [takenNames]
+  );
+
+  const form = useForm<VariableNameFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { variableName },
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset({ variableName });
+      setTakenNames(
+        getNodes()
+          .filter((node) => node.id !== nodeId)
+          .map((node) => getSavedVariableName(node.data))
+          .filter((name): name is string => name !== undefined)
+      );
+    }
+  }, [open, variableName, nodeId, getNodes, form]);
+
+  const handleSubmit = (values: VariableNameFormValues) => {
+    setNodes((currentNodes) =>
+      currentNodes.map((node) =>
+        node.id === nodeId
+          ? {
+              ...node,
+              data: { ...node.data, variableName: values.variableName },
+            }
+          : node
+      )
+    );
+    onOpenChange(false);
+  };
+
+  const watchVariableName = form.watch('variableName');
+  const example = /^[A-Za-z_][\w$-]*$/.test(watchVariableName)
+    ? `{{${watchVariableName}.data}}`
+    : `{{$node[${JSON.stringify(watchVariableName)}].data}}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Variable name</DialogTitle>
+          <DialogDescription>
+            The output of this node is available to the nodes after it under
+            this name.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="variableName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Use it as {example}. Templates that use the previous name
+                    are not updated.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
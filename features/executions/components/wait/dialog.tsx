@@ -0,0 +1,229 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import z from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { WAIT_MAX_DAYS } from '@/features/executions/lib/wait';
+
+const formSchema = z
+  .object({
+    mode: z.enum(['duration', 'until']),
+    amount: z.string().trim(),
+    unit: z.enum(['seconds', 'minutes', 'hours', 'days']),
+    until: z.string().trim(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.mode === 'until') {
+      if (!values.until) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'Resume date is required',
+          path: ['until'],
+        });
+      }
+      return;
+    }
+
+    if (!values.amount) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Duration is required',
+        path: ['amount'],
+      });
+      return;
+    }
+
+    // Expressions are only checked when the node runs
+    if (!values.amount.includes('{{') && !(Number(values.amount) >= 0)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Duration must be a positive number or an expression',
+        path: ['amount'],
+      });
+    }
+  });
+
+export type WaitFormValues = z.infer<typeof formSchema>;
+
+const getDefaults = (
+  defaultValues: Partial<WaitFormValues>
+): WaitFormValues => ({
+  mode: defaultValues.mode || 'duration',
+  amount: defaultValues.amount || '',
+  unit: defaultValues.unit || 'minutes',
+  until: defaultValues.until || '',
+});
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: WaitFormValues) => void;
+  defaultValues?: Partial<WaitFormValues>;
+}
+
+function WaitDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  defaultValues = {},
+}: Props) {
+  const form = useForm<WaitFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getDefaults(defaultValues),
+  });
+
+  // Reset form values when dialog opens with new defaults
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaults(defaultValues));
+    }
+  }, [open, defaultValues, form]);
+
+  const watchMode = form.watch('mode');
+
+  const handleSubmit = (values: WaitFormValues) => {
+    onSubmit(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Wait</DialogTitle>
+          <DialogDescription>
+            Pause the execution before passing the data on, for up to{' '}
+            {WAIT_MAX_DAYS} days.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-8 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Resume</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="duration">After a duration</SelectItem>
+                      <SelectItem value="until">At a date and time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {watchMode === 'duration' ? (
+              <div className="grid grid-cols-[1fr_160px] items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="3 or {{$json.delayDays}}"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="seconds">Seconds</SelectItem>
+                          <SelectItem value="minutes">Minutes</SelectItem>
+                          <SelectItem value="hours">Hours</SelectItem>
+                          <SelectItem value="days">Days</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            ) : (
+              <FormField
+                control={form.control}
+                name="until"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date and time</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="2025-12-24T09:00:00Z or {{order.data.deliveryDate}}"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      An ISO 8601 date, or a timestamp in milliseconds. Dates in
+                      the past resume straight away
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter className="mt-4">
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default WaitDialog;
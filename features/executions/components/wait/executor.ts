@@ -0,0 +1,42 @@
+import { NonRetriableError } from 'inngest';
+import type { NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+import {
+  getResumeAt,
+  WaitError,
+  type WaitSettings,
+} from '@/features/executions/lib/wait';
+import { TemplateError } from '@/features/executions/lib/templating';
+
+export const waitExecutor: NodeExecutor<WaitSettings> = async ({
+  data,
+  nodeId,
+  context,
+  items,
+  step,
+  markWaiting,
+}) => {
+  // Durations count from the first time the node ran, replays reuse the
+  // resume time memoized by the step
+  const resumeAt = await step.run(`wait:${nodeId}`, async () => {
+    let resumeAt: Date;
+
+    try {
+      resumeAt = getResumeAt(data, context, new Date());
+    } catch (error) {
+      if (error instanceof WaitError || error instanceof TemplateError) {
+        throw new NonRetriableError(`Wait node: ${error.message}`);
+      }
+      throw error;
+    }
+
+    await markWaiting(resumeAt);
+
+    return resumeAt.toISOString();
+  });
+
+  // Inngest suspends the run, nothing is running while the node waits
+  await step.sleepUntil(`wait-until:${nodeId}`, resumeAt);
+
+  return emitOutput(items);
+};
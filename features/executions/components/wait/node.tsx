@@ -0,0 +1,69 @@
+'use client';
+
+import { Node, NodeProps, useReactFlow } from '@xyflow/react';
+import { HourglassIcon } from 'lucide-react';
+import { memo, useState } from 'react';
+import { BaseExecutionNode } from '../base-execution-node';
+import WaitDialog, { WaitFormValues } from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+
+type WaitNodeData = Partial<WaitFormValues>;
+
+type WaitNodeType = Node<WaitNodeData>;
+
+export const WaitNode = memo((props: NodeProps<WaitNodeType>) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { setNodes } = useReactFlow();
+
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  const handleSubmit = (values: WaitFormValues) => {
+    setNodes((nodes) =>
+      nodes.map((node) => {
+        if (node.id === props.id) {
+          return {
+            ...node,
+            data: {
+              ...node.data,
+              ...values,
+            },
+          };
+        }
+        return node;
+      })
+    );
+  };
+
+  const nodeData = props.data;
+  const description =
+    nodeData?.mode === 'until' && nodeData.until
+      ? `Until ${nodeData.until}`
+      : nodeData?.amount
+        ? `For ${nodeData.amount} ${nodeData.unit ?? 'seconds'}`
+        : 'Not configured';
+
+  return (
+    <>
+      <WaitDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+        defaultValues={nodeData}
+      />
+      <BaseExecutionNode
+        {...props}
+        id={props.id}
+        icon={HourglassIcon}
+        name="Wait"
+        status={nodeStatus}
+        description={description}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+WaitNode.displayName = 'WaitNode';
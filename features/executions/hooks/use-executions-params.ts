@@ -0,0 +1,6 @@
+import { useQueryStates } from 'nuqs';
+import { executionsParams } from '../params';
+
+export const useExecutionsParams = () => {
+  return useQueryStates(executionsParams);
+};
@@ -0,0 +1,83 @@
+import { useTRPC } from '@/trpc/client';
+import {
+  useMutation,
+  useQueryClient,
+  useSuspenseQuery,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useExecutionsParams } from './use-executions-params';
+import { ExecutionStatus } from '@/lib/generated/prisma/enums';
+
+/**
+ * Hook to fetch all executions using suspense
+ */
+export const useSuspenseExecutions = () => {
+  const trpc = useTRPC();
+  const [params] = useExecutionsParams();
+
+  return useSuspenseQuery(trpc.executions.getMany.queryOptions(params));
+};
+
+/**
+ * Hook to fetch a single execution using suspense
+ */
+export const useSuspenseExecution = (id: string) => {
+  const trpc = useTRPC();
+
+  return useSuspenseQuery(
+    trpc.executions.getOne.queryOptions(
+      { id },
+      {
+        // Keep polling while the execution is still in progress
+        refetchInterval: (query) =>
+          query.state.data?.status === ExecutionStatus.RUNNING ? 2000 : false,
+      }
+    )
+  );
+};
+
+/**
+ * Hook to cancel a running execution
+ */
+export const useCancelExecution = () => {
+  const queryClient = useQueryClient();
+  const trpc = useTRPC();
+
+  return useMutation(
+    trpc.executions.cancel.mutationOptions({
+      onSuccess: (data) => {
+        toast.success('Execution cancelled.');
+        queryClient.invalidateQueries(trpc.executions.getMany.queryFilter());
+        queryClient.invalidateQueries(
+          trpc.executions.getOne.queryFilter({ id: data.id })
+        );
+      },
+      onError: (error) => {
+        toast.error(`Failed to cancel execution: ${error.message}`);
+      },
+    })
+  );
+};
+
+/**
+ * Hook to retry a failed execution from the node that failed
+ */
+export const useRetryExecution = () => {
+  const queryClient = useQueryClient();
+  const trpc = useTRPC();
+
+  return useMutation(
+    trpc.executions.retry.mutationOptions({
+      onSuccess: (_data, variables) => {
+        toast.success('Execution retried.');
+        queryClient.invalidateQueries(trpc.executions.getMany.queryFilter());
+        queryClient.invalidateQueries(
+          trpc.executions.getOne.queryFilter({ id: variables.id })
+        );
+      },
+      onError: (error) => {
+        toast.error(`Failed to retry execution: ${error.message}`);
+      },
+    })
+  );
+};
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useInngestSubscription } from '@inngest/realtime/hooks';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { selectAtom } from 'jotai/utils';
+import type { NodeStatus } from '@/components/react-flow/node-status-indicator';
+import { nodeStatusesAtom } from '@/features/editor/store/atoms';
+import type { NodeStatusMessage } from '@/inngest/channels/node-status';
+import { useTRPC } from '@/trpc/client';
+
+/**
+ * Hook to subscribe the editor to live node statuses of a workflow. Uses
+ * Inngest realtime and falls back to the node-status SSE route.
+ */
+export const useNodeStatusSubscription = (workflowId: string) => {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const setNodeStatuses = useSetAtom(nodeStatusesAtom);
+
+  const refreshToken = useCallback(
+    () =>
+      queryClient.fetchQuery(
+        trpc.executions.getNodeStatusToken.queryOptions(
+          { workflowId },
+          { staleTime: 0 }
+        )
+      ),
+    [queryClient, trpc, workflowId]
+  );
+
+  const { freshData, error } = useInngestSubscription({ refreshToken });
+  const useFallback = error !== null;
+
+  const applyMessage = useCallback(
+    (message: NodeStatusMessage) => {
+      setNodeStatuses((current) => {
+        const itemCounts =
+          message.itemCount === undefined
+            ? {}
+            : { [message.nodeId]: message.itemCount };
+
+        // A new execution started, statuses of the previous one are stale
+        if (current.executionId !== message.executionId) {
+          return {
+            executionId: message.executionId,
+            statuses: { [message.nodeId]: message.status },
+            itemCounts,
+          };
+        }
+
+        return {
+          ...current,
+          statuses: { ...current.statuses, [message.nodeId]: message.status },
+          itemCounts: { ...current.itemCounts, ...itemCounts },
+        };
+      });
+    },
+    [setNodeStatuses]
+  );
+
+  useEffect(() => {
+    for (const message of freshData) {
+      if (message.topic === 'status') {
+        applyMessage(message.data);
+      }
+    }
+  }, [freshData, applyMessage]);
+
+  useEffect(() => {
+    if (!useFallback) {
+      return;
+    }
+
+    const source = new EventSource(`/api/workflows/${workflowId}/node-status`);
+    source.onmessage = (event) => {
+      applyMessage(JSON.parse(event.data) as NodeStatusMessage);
+    };
+
+    return () => source.close();
+  }, [useFallback, workflowId, applyMessage]);
+
+  useEffect(() => {
+    return () =>
+      setNodeStatuses({ executionId: null, statuses: {}, itemCounts: {} });
+  }, [workflowId, setNodeStatuses]);
+};
+
+/**
+ * Hook to read the live status of a node on the editor canvas
+ */
+export const useNodeStatus = (nodeId: string): NodeStatus => {
+  const statusAtom = useMemo(
+    () =>
+      selectAtom(
+        nodeStatusesAtom,
+        (nodeStatuses) => nodeStatuses.statuses[nodeId] ?? 'initial'
+      ),
+    [nodeId]
+  );
+
+  return useAtomValue(statusAtom);
+};
+
+/**
+ * Hook to read how many items a node emitted in the most recent execution,
+ * undefined until it succeeded
+ */
+export const useNodeItemCount = (nodeId: string): number | undefined => {
+  const itemCountAtom = useMemo(
+    () =>
+      selectAtom(
+        nodeStatusesAtom,
+        (nodeStatuses) => nodeStatuses.itemCounts[nodeId]
+      ),
+    [nodeId]
+  );
+
+  return useAtomValue(itemCountAtom);
+};
@@ -0,0 +1,71 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { APPROVAL_OUTPUTS } from '@/config/constants';
+
+export type ApprovalDecision =
+  (typeof APPROVAL_OUTPUTS)[keyof typeof APPROVAL_OUTPUTS];
+
+export const APPROVAL_DECIDED_EVENT = 'workflow/approval.decided';
+
+export interface ApprovalDecidedEventData {
+  approvalId: string;
+  decision: ApprovalDecision;
+  comment: string | null;
+}
+
+const getSecret = () => {
+  const secret = process.env.BETTER_AUTH_SECRET;
+
+  if (!secret) {
+    throw new Error('BETTER_AUTH_SECRET is required to sign approval links');
+  }
+
+  return secret;
+};
+
+// Same base URL the auth links use
+const getAppUrl = () => {
+  if (process.env.BETTER_AUTH_URL) return process.env.BETTER_AUTH_URL;
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return 'http://localhost:3000';
+};
+
+/**
+ * Token of the link that makes one decision on one approval. Anyone holding
+ * the link can make that decision, and only that one.
+ */
+export const signApprovalToken = (
+  approvalId: string,
+  decision: ApprovalDecision
+) => {
+  return createHmac('sha256', getSecret())
+    .update(`${approvalId}:${decision}`)
+    .digest('base64url');
+};
+
+export const verifyApprovalToken = (
+  approvalId: string,
+  decision: ApprovalDecision,
+  token: string
+) => {
+  const expected = Buffer.from(signApprovalToken(approvalId, decision));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Signed links to the approval page, one per decision
+ */
+export const getApprovalUrls = (approvalId: string) => {
+  const getUrl = (decision: ApprovalDecision) => {
+    const url = new URL(`/approvals/${approvalId}`, getAppUrl());
+    url.searchParams.set('decision', decision);
+    url.searchParams.set('token', signApprovalToken(approvalId, decision));
+    return url.toString();
+  };
+
+  return {
+    approveUrl: getUrl(APPROVAL_OUTPUTS.APPROVED),
+    rejectUrl: getUrl(APPROVAL_OUTPUTS.REJECTED),
+  };
+};
@@ -0,0 +1,319 @@
+import { resolveTemplateValue } from './templating';
+
+/**
+ * Conditions used by branching nodes. A condition compares a value taken from
+ * the workflow context (usually a template such as `{{httpResponse.status}}`)
+ * with a second value, using the comparison of its type.
+ *
+ * Every function in this module is pure, executors wrap the errors it throws.
+ */
+
+export const CONDITION_TYPES = ['string', 'number', 'boolean', 'date'] as const;
+
+export type ConditionType = (typeof CONDITION_TYPES)[number];
+
+export const CONDITION_COMBINATORS = ['and', 'or'] as const;
+
+export type ConditionCombinator = (typeof CONDITION_COMBINATORS)[number];
+
+export type ConditionOperatorOption = {
+  value: string;
+  label: string;
+  /** Operators that only look at the left value */
+  unary?: boolean;
+};
+
+const PRESENCE_OPERATORS: ConditionOperatorOption[] = [
+  { value: 'exists', label: 'exists', unary: true },
+  { value: 'notExists', label: 'does not exist', unary: true },
+  { value: 'isEmpty', label: 'is empty', unary: true },
+  { value: 'isNotEmpty', label: 'is not empty', unary: true },
+];
+
+export const CONDITION_OPERATORS: Record<
+  ConditionType,
+  ConditionOperatorOption[]
+> = {
+  string: [
+    { value: 'equals', label: 'is equal to' },
+    { value: 'notEquals', label: 'is not equal to' },
+    { value: 'contains', label: 'contains' },
+    { value: 'notContains', label: 'does not contain' },
+    { value: 'startsWith', label: 'starts with' },
+    { value: 'endsWith', label: 'ends with' },
+    { value: 'regex', label: 'matches regex' },
+    { value: 'notRegex', label: 'does not match regex' },
+    ...PRESENCE_OPERATORS,
+  ],
+  number: [
+    { value: 'equals', label: 'is equal to' },
+    { value: 'notEquals', label: 'is not equal to' },
+    { value: 'gt', label: 'is greater than' },
+    { value: 'gte', label: 'is greater than or equal to' },
+    { value: 'lt', label: 'is less than' },
+    { value: 'lte', label: 'is less than or equal to' },
+    ...PRESENCE_OPERATORS,
+  ],
+  boolean: [
+    { value: 'isTrue', label: 'is true', unary: true },
+    { value: 'isFalse', label: 'is false', unary: true },
+    { value: 'equals', label: 'is equal to' },
+    { value: 'notEquals', label: 'is not equal to' },
+    ...PRESENCE_OPERATORS,
+  ],
+  date: [
+    { value: 'equals', label: 'is equal to' },
+    { value: 'notEquals', label: 'is not equal to' },
+    { value: 'after', label: 'is after' },
+    { value: 'afterOrEquals', label: 'is after or equal to' },
+    { value: 'before', label: 'is before' },
+    { value: 'beforeOrEquals', label: 'is before or equal to' },
+    ...PRESENCE_OPERATORS,
+  ],
+};
+
+export interface Condition {
+  id: string;
+  type: ConditionType;
+  operator: string;
+  leftValue: string;
+  rightValue?: string;
+}
+
+export interface ConditionGroup {
+  combinator: ConditionCombinator;
+  conditions: Condition[];
+}
+
+export class ConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConditionError';
+  }
+}
+
+/**
+ * Look up an operator of a condition type, e.g. to know whether it is unary
+ */
+export const getConditionOperator = (type: ConditionType, operator: string) => {
+  return CONDITION_OPERATORS[type].find((option) => option.value === operator);
+};
+
+const isEmptyValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') {
+    return true;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+
+  if (typeof value === 'object') {
+    return Object.keys(value).length === 0;
+  }
+
+  return false;
+};
+
+const describe = (value: unknown) => {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+};
+
+const toText = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const toNumber = (value: unknown) => {
+  const number =
+    typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+
+  if (Number.isNaN(number)) {
+    throw new ConditionError(`${describe(value)} is not a number`);
+  }
+
+  return number;
+};
+
+const toBoolean = (value: unknown) => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+
+  if (value === 'true' || value === 1 || value === '1') {
+    return true;
+  }
+
+  if (value === 'false' || value === 0 || value === '0') {
+    return false;
+  }
+
+  throw new ConditionError(`${describe(value)} is not a boolean`);
+};
+
+const toTimestamp = (value: unknown) => {
+  const date =
+    value instanceof Date ? value : new Date(value as string | number);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new ConditionError(`${describe(value)} is not a valid date`);
+  }
+
+  return date.getTime();
+};
+
+/**
+ * Build a RegExp from `pattern` or `/pattern/flags`
+ */
+const toRegExp = (value: unknown) => {
+  const source = toText(value);
+  const literal = source.match(/^\/([\s\S]*)\/([a-z]*)$/);
+
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+  } catch {
+    throw new ConditionError(`${describe(source)} is not a valid regex`);
+  }
+};
+
+const compare = (
+  type: ConditionType,
+  operator: string,
+  left: unknown,
+  right: unknown
+): boolean => {
+  switch (operator) {
+    case 'exists':
+      return left !== undefined && left !== null;
+    case 'notExists':
+      return left === undefined || left === null;
+    case 'isEmpty':
+      return isEmptyValue(left);
+    case 'isNotEmpty':
+      return !isEmptyValue(left);
+  }
+
+  if (type === 'string') {
+    const a = toText(left);
+
+    switch (operator) {
+      case 'equals':
+        return a === toText(right);
+      case 'notEquals':
+        return a !== toText(right);
+      case 'contains':
+        return a.includes(toText(right));
+      case 'notContains':
+        return !a.includes(toText(right));
+      case 'startsWith':
+        return a.startsWith(toText(right));
+      case 'endsWith':
+        return a.endsWith(toText(right));
+      case 'regex':
+        return toRegExp(right).test(a);
+      case 'notRegex':
+        return !toRegExp(right).test(a);
+    }
+  }
+
+  if (type === 'number') {
+    const a = toNumber(left);
+
+    switch (operator) {
+      case 'equals':
+        return a === toNumber(right);
+      case 'notEquals':
+        return a !== toNumber(right);
+      case 'gt':
+        return a > toNumber(right);
+      case 'gte':
+        return a >= toNumber(right);
+      case 'lt':
+        return a < toNumber(right);
+      case 'lte':
+        return a <= toNumber(right);
+    }
+  }
+
+  if (type === 'boolean') {
+    const a = toBoolean(left);
+
+    switch (operator) {
+      case 'isTrue':
+        return a;
+      case 'isFalse':
+        return !a;
+      case 'equals':
+        return a === toBoolean(right);
+      case 'notEquals':
+        return a !== toBoolean(right);
+    }
+  }
+
+  if (type === 'date') {
+    const a = toTimestamp(left);
+
+    switch (operator) {
+      case 'equals':
+        return a === toTimestamp(right);
+      case 'notEquals':
+        return a !== toTimestamp(right);
+      case 'after':
+        return a > toTimestamp(right);
+      case 'afterOrEquals':
+        return a >= toTimestamp(right);
+      case 'before':
+        return a < toTimestamp(right);
+      case 'beforeOrEquals':
+        return a <= toTimestamp(right);
+    }
+  }
+
+  throw new ConditionError(`Unknown ${type} operator "${operator}"`);
+};
+
+/**
+ * Resolve both sides of a condition against the context and compare them.
+ * Missing values resolve to `undefined` so `exists` / `is empty` work.
+ */
+export const evaluateCondition = (condition: Condition, context: unknown) => {
+  const left = resolveTemplateValue(condition.leftValue, context, {
+    strict: false,
+  });
+  const right = getConditionOperator(condition.type, condition.operator)?.unary
+    ? undefined
+    : resolveTemplateValue(condition.rightValue ?? '', context, {
+        strict: false,
+      });
+
+  try {
+    return compare(condition.type, condition.operator, left, right);
+  } catch (error) {
+    if (error instanceof ConditionError) {
+      throw new ConditionError(
+        `Condition "${condition.leftValue}": ${error.message}`
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Evaluate a group of conditions, combined with AND or OR. An empty group
+ * passes.
+ */
+export const evaluateConditionGroup = (
+  { combinator, conditions }: ConditionGroup,
+  context: unknown
+) => {
+  if (combinator === 'or' && conditions.length > 0) {
+    return conditions.some((condition) =>
+      evaluateCondition(condition, context)
+    );
+  }
+
+  return conditions.every((condition) => evaluateCondition(condition, context));
+};
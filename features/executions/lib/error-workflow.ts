@@ -0,0 +1,91 @@
+import prisma from '@/lib/db';
+import { createId } from '@paralleldrive/cuid2';
+import { NodeExecutionStatus, NodeType } from '@/lib/generated/prisma/enums';
+
+/**
+ * Initial data of an error workflow run, the output of its Error trigger:
+ * `{{errorTrigger.workflow.name}}`, `{{errorTrigger.error.message}}`, ...
+ */
+export interface ErrorWorkflowPayload {
+  workflow: { id: string; name: string };
+  execution: { id: string };
+  node: { id: string; name: string; type: NodeType } | null;
+  error: { message: string; stack?: string };
+}
+
+interface PrepareErrorWorkflowParams {
+  executionId: string;
+  error: { message: string; stack?: string };
+}
+
+/**
+ * Look up the error workflow of a failed execution and build the data to start
+ * it with. Returns null when the workflow has none, or when it would trigger
+ * itself or another error workflow, and for steps executed from the editor.
+ */
+export const prepareErrorWorkflow = async ({
+  executionId,
+  error,
+}: PrepareErrorWorkflowParams) => {
+  const execution = await prisma.execution.findUnique({
+    where: { id: executionId },
+    select: {
+      triggerType: true,
+      partialNodeId: true,
+      workflow: {
+        select: { id: true, name: true, errorWorkflowId: true },
+      },
+      nodeExecutions: {
+        where: {
+          status: {
+            in: [NodeExecutionStatus.ERROR, NodeExecutionStatus.TIMED_OUT],
+          },
+        },
+        orderBy: { finishedAt: 'desc' },
+        take: 1,
+        select: { nodeId: true, nodeName: true, nodeType: true },
+      },
+    },
+  });
+
+  const errorWorkflowId = execution?.workflow.errorWorkflowId;
+
+  if (!execution || !errorWorkflowId) {
+    return null;
+  }
+
+  // An error workflow failing must not start itself again, nor another error
+  // workflow that could start it back
+  if (
+    errorWorkflowId === execution.workflow.id ||
+    execution.triggerType === NodeType.ERROR_TRIGGER
+  ) {
+    return null;
+  }
+
+  // Steps executed from the editor are tests, their failures are not reported
+  if (execution.partialNodeId) {
+    return null;
+  }
+
+  const [failedNode] = execution.nodeExecutions;
+
+  const payload: ErrorWorkflowPayload = {
+    workflow: { id: execution.workflow.id, name: execution.workflow.name },
+    execution: { id: executionId },
+    node: failedNode
+      ? {
+          id: failedNode.nodeId,
+          name: failedNode.nodeName,
+          type: failedNode.nodeType,
+        }
+      : null,
+    error: { message: error.message, stack: error.stack },
+  };
+
+  return {
+    workflowId: errorWorkflowId,
+    executionId: createId(),
+    initialData: payload,
+  };
+};
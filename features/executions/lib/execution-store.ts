@@ -0,0 +1,426 @@
+import prisma from '@/lib/db';
+import { Prisma } from '@/lib/generated/prisma/client';
+import {
+  ApprovalStatus,
+  ExecutionStatus,
+  NodeExecutionStatus,
+  type NodeType,
+} from '@/lib/generated/prisma/enums';
+
+interface CompleteExecutionParams {
+  executionId: string;
+  status: ExecutionStatus;
+  output?: Prisma.InputJsonValue;
+  error?: { message: string; stack?: string };
+}
+
+/**
+ * Move a running execution into its final state, recording when it finished
+ * and how long it took. Executions that already finished are left untouched.
+ */
+export const completeExecution = async ({
+  executionId,
+  status,
+  output,
+  error,
+}: CompleteExecutionParams) => {
+  const execution = await prisma.execution.findUnique({
+    where: { id: executionId },
+    select: { status: true, startedAt: true },
+  });
+
+  if (!execution || execution.status !== ExecutionStatus.RUNNING) {
+    return null;
+  }
+
+  const finishedAt = new Date();
+
+  return prisma.execution.update({
+    where: { id: executionId },
+    data: {
+      status,
+      output,
+      error: error?.message,
+      errorStack: error?.stack,
+      finishedAt,
+      durationMs: BigInt(finishedAt.getTime() - execution.startedAt.getTime()),
+    },
+  });
+};
+
+/**
+ * Record the retry of a failed execution before it is sent to Inngest, whose
+ * `create-execution` step then keeps it. Returns null when the execution was
+ * already retried, also by a retry requested at the same time.
+ */
+export const createRetryExecution = async ({
+  executionId,
+  retryOf,
+}: {
+  executionId: string;
+  retryOf: { id: string; workflowId: string; triggerType: NodeType };
+}) => {
+  try {
+    // Serializable, so two retries cannot both see no retry and create one
+    return await prisma.$transaction(
+      async (tx) => {
+        const retries = await tx.execution.count({
+          where: { retryOfExecutionId: retryOf.id },
+        });
+
+        if (retries > 0) {
+          return null;
+        }
+
+        return tx.execution.create({
+          data: {
+            id: executionId,
+            workflowId: retryOf.workflowId,
+            triggerType: retryOf.triggerType,
+            retryOfExecutionId: retryOf.id,
+          },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    // The transaction that lost against a concurrent retry
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2034'
+    ) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+interface NodeExecutionTarget {
+  executionId: string;
+  node: { id: string; name: string; type: NodeType };
+  /** Which run of the node, nodes inside a loop run once per batch */
+  runIndex: number;
+}
+
+/**
+ * Record that a node started running with the given input
+ */
+export const startNodeExecution = ({
+  executionId,
+  node,
+  runIndex,
+  input,
+}: NodeExecutionTarget & { input: Prisma.InputJsonValue }) => {
+  return prisma.nodeExecution.upsert({
+    where: {
+      executionId_nodeId_runIndex: { executionId, nodeId: node.id, runIndex },
+    },
+    create: {
+      executionId,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      runIndex,
+      input,
+    },
+    update: {},
+  });
+};
+
+// Statuses of nodes that started and did not finish yet
+const IN_FLIGHT_STATUSES: NodeExecutionStatus[] = [
+  NodeExecutionStatus.RUNNING,
+  NodeExecutionStatus.WAITING,
+];
+
+/**
+ * Record that a running node paused until `resumeAt`, e.g. a Wait node
+ */
+export const waitNodeExecution = ({
+  executionId,
+  nodeId,
+  runIndex,
+  resumeAt,
+}: {
+  executionId: string;
+  nodeId: string;
+  runIndex: number;
+  resumeAt: Date;
+}) => {
+  return prisma.nodeExecution.updateMany({
+    where: {
+      executionId,
+      nodeId,
+      runIndex,
+      status: NodeExecutionStatus.RUNNING,
+    },
+    data: { status: NodeExecutionStatus.WAITING, resumeAt },
+  });
+};
+
+/**
+ * Record the result of a node that was started with `startNodeExecution`.
+ * Nodes that were cancelled in the meantime keep their status.
+ */
+export const completeNodeExecution = ({
+  executionId,
+  nodeId,
+  runIndex,
+  status,
+  output,
+  error,
+}: {
+  executionId: string;
+  nodeId: string;
+  runIndex: number;
+  status: NodeExecutionStatus;
+  output?: Prisma.InputJsonValue;
+  error?: unknown;
+}) => {
+  return prisma.nodeExecution.updateMany({
+    where: {
+      executionId,
+      nodeId,
+      runIndex,
+      status: { in: IN_FLIGHT_STATUSES },
+    },
+    data: {
+      status,
+      output,
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+        errorStack: error instanceof Error ? error.stack : undefined,
+      }),
+      finishedAt: new Date(),
+    },
+  });
+};
+
+/**
+ * Record a node that did not run because none of its inputs received data
+ */
+export const skipNodeExecution = ({
+  executionId,
+  node,
+  runIndex,
+}: NodeExecutionTarget) => {
+  const now = new Date();
+
+  return prisma.nodeExecution.upsert({
+    where: {
+      executionId_nodeId_runIndex: { executionId, nodeId: node.id, runIndex },
+    },
+    create: {
+      executionId,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      runIndex,
+      status: NodeExecutionStatus.SKIPPED,
+      startedAt: now,
+      finishedAt: now,
+    },
+    update: {},
+  });
+};
+
+/**
+ * Record a node run by copying a successful run of another execution, e.g.
+ * the execution a retry retries, so the node does not run again
+ */
+export const reuseNodeExecution = async ({
+  executionId,
+  node,
+  runIndex,
+  sourceExecutionId,
+}: NodeExecutionTarget & { sourceExecutionId: string }) => {
+  const source = await prisma.nodeExecution.findUniqueOrThrow({
+    where: {
+      executionId_nodeId_runIndex: {
+        executionId: sourceExecutionId,
+        nodeId: node.id,
+        runIndex,
+      },
+    },
+  });
+  const now = new Date();
+
+  return prisma.nodeExecution.upsert({
+    where: {
+      executionId_nodeId_runIndex: { executionId, nodeId: node.id, runIndex },
+    },
+    create: {
+      executionId,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      runIndex,
+      status: NodeExecutionStatus.SUCCESS,
+      input: (source.input ?? undefined) as Prisma.InputJsonValue | undefined,
+      output: (source.output ?? undefined) as Prisma.InputJsonValue | undefined,
+      reused: true,
+      startedAt: now,
+      finishedAt: now,
+    },
+    update: {},
+  });
+};
+
+/**
+ * Record a node that emitted its pinned data instead of running
+ */
+export const pinNodeExecution = ({
+  executionId,
+  node,
+  runIndex,
+  output,
+}: NodeExecutionTarget & { output: Prisma.InputJsonValue }) => {
+  const now = new Date();
+
+  return prisma.nodeExecution.upsert({
+    where: {
+      executionId_nodeId_runIndex: { executionId, nodeId: node.id, runIndex },
+    },
+    create: {
+      executionId,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      runIndex,
+      status: NodeExecutionStatus.SUCCESS,
+      output,
+      reused: true,
+      startedAt: now,
+      finishedAt: now,
+    },
+    update: {},
+  });
+};
+
+/**
+ * Record the nodes that are not connected to the trigger that started the
+ * run, they are never executed
+ */
+export const recordNotExecutedNodes = ({
+  executionId,
+  nodes,
+}: {
+  executionId: string;
+  nodes: NodeExecutionTarget['node'][];
+}) => {
+  const now = new Date();
+
+  return prisma.nodeExecution.createMany({
+    data: nodes.map((node) => ({
+      executionId,
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      status: NodeExecutionStatus.NOT_EXECUTED,
+      startedAt: now,
+      finishedAt: now,
+    })),
+    skipDuplicates: true,
+  });
+};
+
+/**
+ * Stop a running execution and the nodes that were in flight. Returns null
+ * when the execution already finished.
+ */
+export const cancelExecution = async ({
+  executionId,
+}: {
+  executionId: string;
+}) => {
+  const execution = await completeExecution({
+    executionId,
+    status: ExecutionStatus.CANCELLED,
+  });
+
+  if (!execution) {
+    return null;
+  }
+
+  await prisma.nodeExecution.updateMany({
+    where: { executionId, status: { in: IN_FLIGHT_STATUSES } },
+    data: {
+      status: NodeExecutionStatus.CANCELLED,
+      finishedAt: execution.finishedAt,
+    },
+  });
+
+  return execution;
+};
+
+/**
+ * Record the decision an Approval node asks for. Retries of the node get the
+ * approval created by the first attempt.
+ */
+export const createApproval = ({
+  executionId,
+  nodeId,
+  runIndex,
+  message,
+  expiresAt,
+}: {
+  executionId: string;
+  nodeId: string;
+  runIndex: number;
+  message: string;
+  expiresAt: Date;
+}) => {
+  return prisma.approval.upsert({
+    where: {
+      executionId_nodeId_runIndex: { executionId, nodeId, runIndex },
+    },
+    create: { executionId, nodeId, runIndex, message, expiresAt },
+    update: {},
+  });
+};
+
+/**
+ * Approve or reject a pending approval. Returns null when it was already
+ * decided or has expired.
+ */
+export const decideApproval = async ({
+  approvalId,
+  status,
+  comment,
+}: {
+  approvalId: string;
+  status: typeof ApprovalStatus.APPROVED | typeof ApprovalStatus.REJECTED;
+  comment: string | null;
+}) => {
+  const { count } = await prisma.approval.updateMany({
+    where: {
+      id: approvalId,
+      status: ApprovalStatus.PENDING,
+      expiresAt: { gt: new Date() },
+    },
+    data: { status, comment, decidedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return prisma.approval.findUniqueOrThrow({ where: { id: approvalId } });
+};
+
+/**
+ * Expire an approval nobody decided on in time. A decision made just before
+ * is kept, so the approval is returned as it ends up.
+ */
+export const expireApproval = async ({
+  approvalId,
+}: {
+  approvalId: string;
+}) => {
+  await prisma.approval.updateMany({
+    where: { id: approvalId, status: ApprovalStatus.PENDING },
+    data: { status: ApprovalStatus.EXPIRED },
+  });
+
+  return prisma.approval.findUniqueOrThrow({ where: { id: approvalId } });
+};
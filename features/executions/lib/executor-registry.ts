@@ -1,12 +1,30 @@
 import { NodeType } from '@/lib/generated/prisma/enums';
 import { NodeExecutor } from '../types';
 import { manualTriggerExecutor } from '@/features/triggers/components/manual-trigger/executor';
+import { errorTriggerExecutor } from '@/features/triggers/components/error-trigger/executor';
 import { httpRequestExecutor } from '../components/http-request/executor';
+import { ifExecutor } from '../components/if/executor';
+import { switchExecutor } from '../components/switch/executor';
+import { mergeExecutor } from '../components/merge/executor';
+import { loopOverItemsExecutor } from '../components/loop-over-items/executor';
+import { waitExecutor } from '../components/wait/executor';
+import { approvalExecutor } from '../components/approval/executor';
+import { executeWorkflowExecutor } from '../components/execute-workflow/executor';
+import { executeWorkflowTriggerExecutor } from '@/features/triggers/components/execute-workflow-trigger/executor';
 
 export const executorRegistry: Record<NodeType, NodeExecutor> = {
   [NodeType.MANUAL_TRIGGER]: manualTriggerExecutor,
   [NodeType.INITIAL]: manualTriggerExecutor,
   [NodeType.HTTP_REQUEST]: httpRequestExecutor,
+  [NodeType.IF]: ifExecutor,
+  [NodeType.SWITCH]: switchExecutor,
+  [NodeType.MERGE]: mergeExecutor,
+  [NodeType.ERROR_TRIGGER]: errorTriggerExecutor,
+  [NodeType.LOOP_OVER_ITEMS]: loopOverItemsExecutor,
+  [NodeType.WAIT]: waitExecutor,
+  [NodeType.APPROVAL]: approvalExecutor,
+  [NodeType.EXECUTE_WORKFLOW]: executeWorkflowExecutor,
+  [NodeType.EXECUTE_WORKFLOW_TRIGGER]: executeWorkflowTriggerExecutor,
 };
 
 export const getExecutor = (type: NodeType): NodeExecutor => {
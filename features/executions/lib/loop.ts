@@ -0,0 +1,55 @@
+import type { WorkflowContext, WorkflowItem } from '../types';
+import { toItem } from './outputs';
+import { resolvePath } from './templating';
+
+export const LOOP_BATCH_SIZE = {
+  DEFAULT: 1,
+  MIN: 1,
+  MAX: 1000,
+};
+
+export class LoopError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoopError';
+  }
+}
+
+/**
+ * Split the items of a loop node into batches of at most `batchSize` items.
+ * With a `listPath`, the values of the list at that path are the items
+ * instead. An empty list gives no batches.
+ */
+export const splitIntoBatches = (
+  items: WorkflowItem[],
+  context: WorkflowContext,
+  { listPath, batchSize }: { listPath?: string; batchSize: number }
+): WorkflowItem[][] => {
+  if (!Number.isInteger(batchSize) || batchSize < LOOP_BATCH_SIZE.MIN) {
+    throw new LoopError(`batch size must be at least ${LOOP_BATCH_SIZE.MIN}`);
+  }
+
+  let list = items;
+
+  if (listPath?.trim()) {
+    const resolved = resolvePath(context, listPath);
+
+    if (!resolved.found || resolved.value === undefined) {
+      throw new LoopError(`"${listPath}" does not exist`);
+    }
+
+    if (!Array.isArray(resolved.value)) {
+      throw new LoopError(`"${listPath}" is not a list`);
+    }
+
+    list = resolved.value.map(toItem);
+  }
+
+  const batches: WorkflowItem[][] = [];
+
+  for (let index = 0; index < list.length; index += batchSize) {
+    batches.push(list.slice(index, index + batchSize));
+  }
+
+  return batches;
+};
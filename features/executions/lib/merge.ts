@@ -0,0 +1,150 @@
+import { NODE_HANDLES } from '@/config/constants';
+import { NodeType } from '@/lib/generated/prisma/enums';
+import type { WorkflowItem } from '../types';
+import { toItem } from './outputs';
+import { resolvePath } from './templating';
+
+/**
+ * Ways a merge node combines the items of its inputs. With a `listPath`, the
+ * items of every input are replaced with the values of the list at that path
+ * in each of them (a single value counts as a list of one).
+ *
+ * - `append` – items of every input, one input after the other
+ * - `matchByKey` – items that have the same value at `matchKey` in every
+ *   input, merged together
+ * - `matchByPosition` – the first items of every input merged together, then
+ *   the second ones, ...
+ * - `waitForEither` – the data of the first input that receives any, the node
+ *   runs as soon as it arrives instead of waiting for every branch
+ */
+export const MERGE_MODES = [
+  'append',
+  'matchByKey',
+  'matchByPosition',
+  'waitForEither',
+] as const;
+
+export type MergeMode = (typeof MERGE_MODES)[number];
+
+export const MERGE_INPUT_COUNT = {
+  MIN: 2,
+  MAX: 5,
+};
+
+export interface MergeOptions {
+  mode: MergeMode;
+  listPath?: string;
+  matchKey?: string;
+}
+
+export class MergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+/**
+ * Whether a node is a merge that runs as soon as one of its inputs received
+ * items, instead of once every node before it finished
+ */
+export const isWaitForEitherMerge = (node: { type: string; data: unknown }) => {
+  return (
+    node.type === NodeType.MERGE &&
+    !!node.data &&
+    typeof node.data === 'object' &&
+    'mode' in node.data &&
+    node.data.mode === 'waitForEither'
+  );
+};
+
+/**
+ * Handle ids of a merge node with `count` inputs. The first one is the main
+ * input, so connections made before the node had several inputs keep working.
+ */
+export const getMergeInputHandles = (count: number) => {
+  return Array.from({ length: count }, (_, index) =>
+    index === 0 ? NODE_HANDLES.MAIN_INPUT : `target-${index + 1}`
+  );
+};
+
+const readList = (items: WorkflowItem[], listPath?: string) => {
+  if (!listPath?.trim()) {
+    return items;
+  }
+
+  return items.flatMap((item) => {
+    const resolved = resolvePath(item.json, listPath);
+
+    if (!resolved.found || resolved.value === undefined) {
+      throw new MergeError(`"${listPath}" does not exist in every input`);
+    }
+
+    return Array.isArray(resolved.value)
+      ? resolved.value.map(toItem)
+      : [toItem(resolved.value)];
+  });
+};
+
+const mergeItems = (items: WorkflowItem[]): WorkflowItem => {
+  const binary = Object.assign({}, ...items.map((item) => item.binary));
+
+  return {
+    json: Object.assign({}, ...items.map((item) => item.json)),
+    ...(Object.keys(binary).length > 0 && { binary }),
+  };
+};
+
+const getKey = (item: WorkflowItem, matchKey: string) => {
+  const resolved = resolvePath(item.json, matchKey);
+  return resolved.found ? JSON.stringify(resolved.value) : undefined;
+};
+
+/**
+ * Combine the items of every input, in input order
+ */
+export const combineInputs = (
+  inputs: WorkflowItem[][],
+  { mode, listPath, matchKey }: MergeOptions
+): WorkflowItem[] => {
+  const lists = inputs.map((items) => readList(items, listPath));
+
+  if (mode === 'append') {
+    return lists.flat();
+  }
+
+  if (mode === 'matchByPosition') {
+    const length = Math.min(...lists.map((list) => list.length));
+
+    return Array.from({ length }, (_, index) =>
+      mergeItems(lists.map((list) => list[index]))
+    );
+  }
+
+  if (mode === 'matchByKey') {
+    if (!matchKey?.trim()) {
+      throw new MergeError('a key to match items on is required');
+    }
+
+    const [first, ...rest] = lists;
+    const restByKey = rest.map(
+      (list) => new Map(list.map((item) => [getKey(item, matchKey), item]))
+    );
+
+    return first.flatMap((item) => {
+      const key = getKey(item, matchKey);
+
+      if (key === undefined) {
+        return [];
+      }
+
+      const matches = restByKey.map((items) => items.get(key));
+
+      return matches.every((match) => match !== undefined)
+        ? [mergeItems([item, ...matches])]
+        : [];
+    });
+  }
+
+  throw new MergeError(`Unknown merge mode "${mode}"`);
+};
@@ -0,0 +1,55 @@
+import type { NodeOutputs, WorkflowContext, WorkflowItem } from '../types';
+import { getOutputItems } from './outputs';
+
+interface CreateNodeContextParams {
+  /** Every item delivered to the node */
+  items: WorkflowItem[];
+  /** Position of the item the node is handling */
+  itemIndex: number;
+  /** Which run of the node, nodes inside a loop run once per batch */
+  runIndex: number;
+  /** Outputs of the upstream nodes that ran, by variable name */
+  upstreamOutputs: Map<string, NodeOutputs>;
+}
+
+/**
+ * Build the read-only view a node renders its templates against. Every
+ * upstream node is found under its own variable name, so nodes cannot
+ * overwrite each other's data:
+ *
+ * - `{{myApiCall.data.id}}` reads the output of the node named `myApiCall`
+ * - `{{$node["Fetch user"].data}}` does the same for any name
+ * - `{{$json.id}}` reads the current item
+ * - `{{$items}}`, `{{$itemIndex}}` and `{{$runIndex}}` give every item, the
+ *   position of the current one and the run of the node
+ *
+ * Upstream items are paired with the current item by position. A node that
+ * emitted fewer items is seen through its first one.
+ */
+export const createNodeContext = ({
+  items,
+  itemIndex,
+  runIndex,
+  upstreamOutputs,
+}: CreateNodeContextParams): WorkflowContext => {
+  const nodes: WorkflowContext = {};
+
+  for (const [name, outputs] of upstreamOutputs) {
+    const emitted = getOutputItems(outputs);
+
+    nodes[name] = Object.freeze({
+      ...(emitted[itemIndex] ?? emitted[0])?.json,
+    });
+  }
+
+  Object.freeze(nodes);
+
+  return Object.freeze({
+    ...nodes,
+    $node: nodes,
+    $json: items[itemIndex]?.json ?? {},
+    $items: items.map((item) => item.json),
+    $itemIndex: itemIndex,
+    $runIndex: runIndex,
+  });
+};
@@ -0,0 +1,105 @@
+import {
+  EXECUTION_TIMEOUT,
+  NODE_HANDLES,
+  NODE_RETRY,
+} from '@/config/constants';
+import type {
+  NodeExecutionResult,
+  NodeRetryPolicy,
+  NodeSettings,
+  WorkflowItem,
+} from '../types';
+import { emitOutput } from './outputs';
+
+export const DEFAULT_NODE_SETTINGS: NodeSettings = {
+  retry: { maxRetries: 0, backoff: 'fixed', delaySeconds: 1 },
+  continueOnFail: false,
+  errorOutput: false,
+  timeoutSeconds: 0,
+  runOnceForAllItems: false,
+};
+
+// Whole number between 0 and `max`, or the fallback when it is not a number
+const clampSetting = (value: unknown, max: number, fallback: number) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(Math.floor(value), 0), max);
+};
+
+/**
+ * Read the execution settings of a node, falling back to the defaults for
+ * nodes saved before they existed. Saves do not validate node data, so the
+ * limits of the settings dialog are enforced here as well.
+ */
+export const getNodeSettings = (data: unknown): NodeSettings => {
+  const settings =
+    data && typeof data === 'object' && 'settings' in data
+      ? (data.settings as Partial<NodeSettings> | undefined)
+      : undefined;
+  const retry = { ...DEFAULT_NODE_SETTINGS.retry, ...settings?.retry };
+
+  return {
+    ...DEFAULT_NODE_SETTINGS,
+    ...settings,
+    retry: {
+      ...retry,
+      maxRetries: clampSetting(
+        retry.maxRetries,
+        NODE_RETRY.MAX_RETRIES,
+        DEFAULT_NODE_SETTINGS.retry.maxRetries
+      ),
+      delaySeconds: clampSetting(
+        retry.delaySeconds,
+        NODE_RETRY.MAX_DELAY_SECONDS,
+        DEFAULT_NODE_SETTINGS.retry.delaySeconds
+      ),
+    },
+    timeoutSeconds: clampSetting(
+      settings?.timeoutSeconds,
+      EXECUTION_TIMEOUT.MAX_NODE_SECONDS,
+      DEFAULT_NODE_SETTINGS.timeoutSeconds
+    ),
+  };
+};
+
+/**
+ * Seconds to wait before retry number `attempt` (starting at 1)
+ */
+export const getRetryDelay = (policy: NodeRetryPolicy, attempt: number) => {
+  const delay =
+    policy.backoff === 'exponential'
+      ? policy.delaySeconds * 2 ** (attempt - 1)
+      : policy.delaySeconds;
+
+  return Math.min(delay, NODE_RETRY.MAX_DELAY_SECONDS);
+};
+
+/**
+ * Errors that retrying cannot fix. Steps rethrow errors with their original
+ * name, so this also works for errors thrown inside `step.run`.
+ */
+export const isNonRetriableError = (error: unknown) => {
+  return error instanceof Error && error.name === 'NonRetriableError';
+};
+
+/**
+ * Result of a failed node whose settings let the run go on: the items it
+ * received with the error added, on the error output or on the main output
+ */
+export const emitError = (
+  settings: NodeSettings,
+  items: WorkflowItem[],
+  error: unknown
+): NodeExecutionResult => {
+  const details = {
+    name: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error),
+  };
+
+  return emitOutput(
+    items.map((item) => ({ ...item, json: { ...item.json, error: details } })),
+    settings.errorOutput ? NODE_HANDLES.ERROR_OUTPUT : NODE_HANDLES.MAIN_OUTPUT
+  );
+};
@@ -0,0 +1,62 @@
+import { EventEmitter } from 'node:events';
+import type { Realtime } from '@inngest/realtime';
+import {
+  nodeStatusChannel,
+  type NodeStatusMessage,
+} from '@/inngest/channels/node-status';
+
+const globalForNodeStatus = global as unknown as {
+  nodeStatusEvents: EventEmitter;
+};
+
+// In-process fallback for deployments where Inngest realtime is unavailable,
+// served to the editor by the node-status SSE route
+const nodeStatusEvents =
+  globalForNodeStatus.nodeStatusEvents || new EventEmitter().setMaxListeners(0);
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForNodeStatus.nodeStatusEvents = nodeStatusEvents;
+}
+
+/**
+ * Listen to node status updates of a workflow published in this process.
+ * Returns a function that removes the listener.
+ */
+export const subscribeToNodeStatus = (
+  workflowId: string,
+  listener: (message: NodeStatusMessage) => void
+) => {
+  nodeStatusEvents.on(workflowId, listener);
+
+  return () => {
+    nodeStatusEvents.off(workflowId, listener);
+  };
+};
+
+/**
+ * Create a function publishing node status updates of a workflow over Inngest
+ * realtime and the in-process fallback. Failing to publish never fails the run,
+ * the function resolves to false instead.
+ */
+export const createNodeStatusPublisher = ({
+  workflowId,
+  publish,
+}: {
+  workflowId: string;
+  publish?: Realtime.PublishFn;
+}) => {
+  return async (message: NodeStatusMessage) => {
+    nodeStatusEvents.emit(workflowId, message);
+
+    if (!publish) {
+      return true;
+    }
+
+    try {
+      await publish(nodeStatusChannel(workflowId).status(message));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+};
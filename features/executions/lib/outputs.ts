@@ -0,0 +1,49 @@
+import { NODE_HANDLES } from '@/config/constants';
+import type {
+  NodeExecutionResult,
+  NodeOutputs,
+  WorkflowContext,
+  WorkflowItem,
+} from '../types';
+
+/**
+ * Emit items on a single output, the main output by default
+ */
+export const emitOutput = (
+  items: WorkflowItem[],
+  output: string = NODE_HANDLES.MAIN_OUTPUT
+): NodeExecutionResult => {
+  return { outputs: { [output]: items } };
+};
+
+/**
+ * Wrap a value into an item. Objects become its `json`, other values are
+ * kept as `json.value`.
+ */
+export const toItem = (value: unknown): WorkflowItem => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? { json: value as WorkflowContext }
+    : { json: { value } };
+};
+
+/**
+ * Items of every output, in the order the outputs were emitted
+ */
+export const getOutputItems = (outputs: NodeOutputs): WorkflowItem[] => {
+  return Object.values(outputs).flat();
+};
+
+/**
+ * Add the items of `outputs` after the ones already emitted on each output,
+ * for nodes that run once per item
+ */
+export const appendOutputs = (
+  target: NodeOutputs,
+  outputs: NodeOutputs
+): NodeOutputs => {
+  for (const [output, items] of Object.entries(outputs)) {
+    target[output] = [...(target[output] ?? []), ...items];
+  }
+
+  return target;
+};
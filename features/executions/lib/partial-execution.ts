@@ -0,0 +1,68 @@
+import prisma from '@/lib/db';
+import type { Node } from '@/lib/generated/prisma/client';
+import { NodeExecutionStatus } from '@/lib/generated/prisma/enums';
+import { TRIGGER_NODE_TYPES } from '@/config/constants';
+import { getPinnedItems } from './pinned-data';
+import { getNodeRunKey } from './retry';
+
+export const PARTIAL_EXECUTION_MODES = {
+  /** Run the node alone, with the output of the earlier nodes */
+  STEP: 'step',
+  /** Run the node and every node before it */
+  UP_TO: 'upTo',
+} as const;
+
+export type PartialExecutionMode =
+  (typeof PARTIAL_EXECUTION_MODES)[keyof typeof PARTIAL_EXECUTION_MODES];
+
+export class PartialExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PartialExecutionError';
+  }
+}
+
+/**
+ * Outputs a single step runs with: every node before it is taken from the
+ * last run of the workflow in which it succeeded, as `getNodeRunKey` keys
+ * with the execution to copy from. Pinned nodes emit their pinned data and
+ * triggers run again, nodes with neither and no successful run fail the
+ * execution.
+ */
+export const getStepSourceRuns = async ({
+  workflowId,
+  nodes,
+}: {
+  workflowId: string;
+  nodes: Pick<Node, 'id' | 'name' | 'type' | 'data'>[];
+}) => {
+  const sourceRuns: [string, string][] = [];
+
+  for (const node of nodes) {
+    if (getPinnedItems(node.data)) {
+      continue;
+    }
+
+    const nodeExecution = await prisma.nodeExecution.findFirst({
+      where: {
+        nodeId: node.id,
+        nodeType: node.type,
+        runIndex: 0,
+        status: NodeExecutionStatus.SUCCESS,
+        execution: { workflowId },
+      },
+      orderBy: { startedAt: 'desc' },
+      select: { executionId: true },
+    });
+
+    if (nodeExecution) {
+      sourceRuns.push([getNodeRunKey(node.id, 0), nodeExecution.executionId]);
+    } else if (!TRIGGER_NODE_TYPES.includes(node.type)) {
+      throw new PartialExecutionError(
+        `"${node.name}" has no output from an earlier run, execute up to this step instead or pin data on it`
+      );
+    }
+  }
+
+  return sourceRuns;
+};
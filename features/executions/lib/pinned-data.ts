@@ -0,0 +1,44 @@
+import type { WorkflowContext, WorkflowItem } from '../types';
+
+/**
+ * Items pinned on a node, emitted instead of running it when a single step or
+ * the nodes up to a step are executed. Undefined when nothing is pinned.
+ */
+export const getPinnedItems = (data: unknown): WorkflowItem[] | undefined => {
+  if (
+    !data ||
+    typeof data !== 'object' ||
+    !('pinnedData' in data) ||
+    !Array.isArray(data.pinnedData)
+  ) {
+    return undefined;
+  }
+
+  return data.pinnedData.map((json: WorkflowContext) => ({ json }));
+};
+
+/**
+ * Parse the JSON typed in the pinned data dialog: an object or a list of
+ * objects, one per item. Throws a message fit for the form otherwise.
+ */
+export const parsePinnedData = (text: string): WorkflowContext[] => {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Pinned data must be valid JSON');
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+
+  if (
+    items.some(
+      (item) => !item || typeof item !== 'object' || Array.isArray(item)
+    )
+  ) {
+    throw new Error('Pinned data must be an object or a list of objects');
+  }
+
+  return items;
+};
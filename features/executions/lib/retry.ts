@@ -0,0 +1,58 @@
+import prisma from '@/lib/db';
+import type { Connection, Node } from '@/lib/generated/prisma/client';
+import { NodeExecutionStatus } from '@/lib/generated/prisma/enums';
+
+type WorkflowSnapshot = {
+  nodes: Node[];
+  connections: Connection[];
+};
+
+/**
+ * Key of one run of a node, nodes inside a loop run once per batch
+ */
+export const getNodeRunKey = (nodeId: string, runIndex: number) => {
+  return `${nodeId}:${runIndex}`;
+};
+
+/**
+ * Graph an execution ran, null for executions recorded before snapshots
+ * existed
+ */
+export const getExecutionSnapshot = async (executionId: string) => {
+  const execution = await prisma.execution.findUniqueOrThrow({
+    where: { id: executionId },
+    select: { workflowSnapshot: true },
+  });
+
+  return execution.workflowSnapshot as WorkflowSnapshot | null;
+};
+
+/**
+ * Runs of the retried execution that succeeded, as `getNodeRunKey` keys with
+ * the execution to copy them from. Their output is reused instead of running
+ * them again, unless the node was removed or replaced by a node of another
+ * type since.
+ */
+export const getReusableNodeRuns = async ({
+  executionId,
+  nodes,
+}: {
+  executionId: string;
+  nodes: Pick<Node, 'id' | 'type'>[];
+}) => {
+  const nodeTypes = new Map(nodes.map((node) => [node.id, node.type]));
+  const nodeExecutions = await prisma.nodeExecution.findMany({
+    where: { executionId, status: NodeExecutionStatus.SUCCESS },
+    select: { nodeId: true, nodeType: true, runIndex: true },
+  });
+
+  return nodeExecutions
+    .filter(
+      (nodeExecution) =>
+        nodeTypes.get(nodeExecution.nodeId) === nodeExecution.nodeType
+    )
+    .map((nodeExecution): [string, string] => [
+      getNodeRunKey(nodeExecution.nodeId, nodeExecution.runIndex),
+      executionId,
+    ]);
+};
@@ -0,0 +1,69 @@
+import prisma from '@/lib/db';
+import { createId } from '@paralleldrive/cuid2';
+import type { WorkflowItem } from '../types';
+
+// A workflow calling itself would otherwise never stop
+export const SUB_WORKFLOW_MAX_DEPTH = 10;
+
+export class SubWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubWorkflowError';
+  }
+}
+
+interface PrepareSubWorkflowParams {
+  /** Execution of the workflow that calls the sub-workflow */
+  executionId: string;
+  workflowId: string;
+  initialItems: WorkflowItem[];
+}
+
+/**
+ * Check that the sub-workflow belongs to the owner of the calling workflow
+ * and that calls are not nested too deep, and build the data to start it
+ * with
+ */
+export const prepareSubWorkflow = async ({
+  executionId,
+  workflowId,
+  initialItems,
+}: PrepareSubWorkflowParams) => {
+  const execution = await prisma.execution.findUniqueOrThrow({
+    where: { id: executionId },
+    select: { workflow: { select: { userId: true } } },
+  });
+
+  const workflow = await prisma.workflow.findFirst({
+    where: { id: workflowId, userId: execution.workflow.userId },
+    select: { id: true },
+  });
+
+  if (!workflow) {
+    throw new SubWorkflowError(`workflow ${workflowId} does not exist`);
+  }
+
+  let depth = 0;
+  let parentId: string | null = executionId;
+
+  while (parentId) {
+    if (++depth >= SUB_WORKFLOW_MAX_DEPTH) {
+      throw new SubWorkflowError(
+        `sub-workflows cannot be nested more than ${SUB_WORKFLOW_MAX_DEPTH} levels deep`
+      );
+    }
+
+    const parent: { parentExecutionId: string | null } | null =
+      await prisma.execution.findUnique({
+        where: { id: parentId },
+        select: { parentExecutionId: true },
+      });
+    parentId = parent?.parentExecutionId ?? null;
+  }
+
+  return {
+    workflowId: workflow.id,
+    executionId: createId(),
+    initialItems,
+  };
+};
@@ -0,0 +1,271 @@
+/**
+ * Template expressions used by node settings, e.g.
+ *
+ * - `{{httpResponse.data.id}}` inserts a value
+ * - `{{json httpResponse.data}}` inserts a value as JSON
+ * - `{{users[0]["first name"]}}` uses bracket paths
+ * - `{{user.nickname ?? "anonymous"}}` falls back when the value is missing
+ * - `\{{not a template}}` is left as `{{not a template}}`
+ *
+ * Every function in this module is pure, executors wrap the errors it throws.
+ */
+
+export type PathSegment = string | number;
+
+export type TemplateEscape = 'none' | 'json';
+
+export interface RenderTemplateOptions {
+  /**
+   * How inserted plain values are escaped. Use `json` when rendering inside a
+   * JSON string literal, e.g. `{ "name": "{{user.name}}" }`.
+   */
+  escape?: TemplateEscape;
+  /**
+   * When `false`, unresolved paths render as an empty string instead of
+   * throwing a `TemplateError`
+   */
+  strict?: boolean;
+}
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly expression?: string
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const TEMPLATE_PATTERN = /(\\)?\{\{([\s\S]*?)\}\}/g;
+const SINGLE_EXPRESSION_PATTERN = /^\s*\{\{([\s\S]*?)\}\}\s*$/;
+
+const IDENTIFIER_SEGMENT = /^\.?([A-Za-z_$][\w$-]*)/;
+const INDEX_SEGMENT = /^\[\s*(\d+)\s*\]/;
+const QUOTED_SEGMENT = /^\[\s*(["'])((?:\\.|(?!\1).)*)\1\s*\]/;
+
+/**
+ * Split a path such as `a.b[0]["c d"]` into `['a', 'b', 0, 'c d']`
+ */
+export const parsePath = (path: string): PathSegment[] => {
+  const source = path.trim();
+
+  if (!source) {
+    throw new TemplateError('Template path is empty');
+  }
+
+  const segments: PathSegment[] = [];
+  let rest = source;
+
+  while (rest.length > 0) {
+    const isFirst = segments.length === 0;
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(IDENTIFIER_SEGMENT)) && (isFirst || rest[0] === '.')) {
+      segments.push(match[1]);
+    } else if ((match = rest.match(INDEX_SEGMENT))) {
+      segments.push(Number(match[1]));
+    } else if ((match = rest.match(QUOTED_SEGMENT))) {
+      segments.push(match[2].replace(/\\(.)/g, '$1'));
+    } else {
+      throw new TemplateError(
+        `Invalid template path "${source}" near "${rest}"`
+      );
+    }
+
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+};
+
+/**
+ * Format path segments back into a readable path, used in error messages
+ */
+export const formatPath = (segments: PathSegment[]) => {
+  return segments
+    .map((segment, index) => {
+      if (typeof segment === 'number') {
+        return `[${segment}]`;
+      }
+
+      if (/^[A-Za-z_$][\w$-]*$/.test(segment)) {
+        return index === 0 ? segment : `.${segment}`;
+      }
+
+      return `[${JSON.stringify(segment)}]`;
+    })
+    .join('');
+};
+
+export type ResolvedPath =
+  | { found: true; value: unknown }
+  | { found: false; missing: PathSegment[] };
+
+/**
+ * Walk a path through the given data. When it does not resolve, `missing`
+ * holds the path up to (and including) the first segment that was not found.
+ */
+export const resolvePath = (
+  data: unknown,
+  path: string | PathSegment[]
+): ResolvedPath => {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  let current = data;
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !(segment in (current as Record<PathSegment, unknown>))
+    ) {
+      return { found: false, missing: segments.slice(0, index + 1) };
+    }
+
+    current = (current as Record<PathSegment, unknown>)[segment];
+  }
+
+  return { found: true, value: current };
+};
+
+type ParsedExpression = {
+  json: boolean;
+  path: string;
+  fallback?: { value: unknown };
+};
+
+const parseExpression = (expression: string): ParsedExpression => {
+  let source = expression.trim();
+  let json = false;
+
+  if (/^json\s+/.test(source)) {
+    json = true;
+    source = source.replace(/^json\s+/, '');
+  }
+
+  const fallbackIndex = source.indexOf('??');
+
+  if (fallbackIndex === -1) {
+    return { json, path: source };
+  }
+
+  const literal = source.slice(fallbackIndex + 2).trim();
+
+  try {
+    return {
+      json,
+      path: source.slice(0, fallbackIndex),
+      fallback: { value: JSON.parse(literal) },
+    };
+  } catch {
+    throw new TemplateError(
+      `Invalid fallback ${literal} in "{{${expression}}}", use a JSON value such as "text", 0 or null`,
+      expression
+    );
+  }
+};
+
+/**
+ * Evaluate the inside of a `{{ }}` expression and return the raw value
+ */
+export const evaluateExpression = (
+  expression: string,
+  context: unknown,
+  { strict = true }: Pick<RenderTemplateOptions, 'strict'> = {}
+): unknown => {
+  const { path, fallback } = parseExpression(expression);
+  const resolved = resolvePath(context, path);
+
+  if (resolved.found && resolved.value !== undefined) {
+    if (resolved.value === null && fallback) {
+      return fallback.value;
+    }
+    return resolved.value;
+  }
+
+  if (fallback) {
+    return fallback.value;
+  }
+
+  if (!strict) {
+    return undefined;
+  }
+
+  const missing = resolved.found ? parsePath(path) : resolved.missing;
+
+  throw new TemplateError(
+    `Template variable "{{${expression.trim()}}}" could not be resolved: "${formatPath(missing)}" does not exist`,
+    expression
+  );
+};
+
+/**
+ * Convert a value to the text inserted into a template
+ */
+export const stringifyValue = (
+  value: unknown,
+  escape: TemplateEscape = 'none'
+) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (escape === 'json') {
+    return JSON.stringify(text).slice(1, -1);
+  }
+
+  return text;
+};
+
+/**
+ * Render every `{{ }}` expression of a template against the context
+ */
+export const renderTemplate = (
+  template: string,
+  context: unknown,
+  { escape = 'none', strict = true }: RenderTemplateOptions = {}
+) => {
+  return template.replace(
+    TEMPLATE_PATTERN,
+    (match: string, escaped: string | undefined, expression: string) => {
+      if (escaped) {
+        return match.slice(1);
+      }
+
+      const { json } = parseExpression(expression);
+      const value = evaluateExpression(expression, context, { strict });
+
+      if (json) {
+        return JSON.stringify(value ?? null);
+      }
+
+      return stringifyValue(value, escape);
+    }
+  );
+};
+
+/**
+ * Resolve a setting that may be a template. A setting made of a single
+ * expression keeps the type of the value it points to (numbers, objects...),
+ * anything else is rendered as text.
+ */
+export const resolveTemplateValue = (
+  input: string,
+  context: unknown,
+  options: Pick<RenderTemplateOptions, 'strict'> = {}
+): unknown => {
+  const match = input.match(SINGLE_EXPRESSION_PATTERN);
+
+  if (match && !input.trim().startsWith('\\')) {
+    const { json } = parseExpression(match[1]);
+    const value = evaluateExpression(match[1], context, options);
+    return json ? JSON.stringify(value ?? null) : value;
+  }
+
+  return renderTemplate(input, context, options);
+};
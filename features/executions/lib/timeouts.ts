@@ -0,0 +1,137 @@
+import { NonRetriableError } from 'inngest';
+
+/**
+ * A node attempt took longer than the node timeout. Inngest does not retry
+ * the step, the node retry settings still apply.
+ */
+export class NodeTimeoutError extends NonRetriableError {
+  constructor(seconds: number) {
+    super(`Node timed out after ${seconds}s`);
+    this.name = 'NodeTimeoutError';
+  }
+}
+
+/**
+ * The execution ran past the workflow timeout, the run fails whatever the
+ * node settings are
+ */
+export class WorkflowTimeoutError extends NonRetriableError {
+  constructor(seconds: number) {
+    super(`Workflow timed out after ${seconds}s`);
+    this.name = 'WorkflowTimeoutError';
+  }
+}
+
+// Errors thrown inside steps are rebuilt from their name, not their class
+export const isWorkflowTimeoutError = (error: unknown) => {
+  return error instanceof Error && error.name === 'WorkflowTimeoutError';
+};
+
+export const isTimeoutError = (error: unknown) => {
+  return (
+    isWorkflowTimeoutError(error) ||
+    (error instanceof Error && error.name === 'NodeTimeoutError')
+  );
+};
+
+export interface WorkflowDeadline {
+  /** Time the execution must finish by, in ms since the epoch */
+  at: number;
+  timeoutSeconds: number;
+}
+
+export interface AttemptTimeout {
+  /** Aborted with the timeout error once a step runs out of time */
+  signal: AbortSignal;
+  /** Run a step callback against the clock */
+  run: <T>(fn: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Clock of a node attempt. Only step callbacks are timed: Inngest runs them
+ * to the end within one request, while the handler around them may be
+ * suspended and replayed later. The steps of an attempt share its node
+ * timeout, each one gets the time the earlier ones left.
+ */
+export const createAttemptTimeout = ({
+  nodeTimeoutSeconds,
+  startedAt,
+  deadline,
+}: {
+  /** 0 for no limit */
+  nodeTimeoutSeconds: number;
+  /**
+   * When the attempt started, in ms since the epoch. Every step runs in its
+   * own request, so it must come from a memoized step to survive replays.
+   */
+  startedAt: number;
+  deadline: WorkflowDeadline | null;
+}): AttemptTimeout => {
+  const controller = new AbortController();
+
+  // Whichever comes first, the node timeout or the workflow deadline
+  const getLimit = () => {
+    const nodeMs =
+      nodeTimeoutSeconds > 0
+        ? nodeTimeoutSeconds * 1000 - (Date.now() - startedAt)
+        : null;
+    const remainingMs = deadline ? deadline.at - Date.now() : null;
+
+    if (remainingMs !== null && (nodeMs === null || remainingMs <= nodeMs)) {
+      return {
+        ms: Math.max(remainingMs, 0),
+        error: new WorkflowTimeoutError(deadline!.timeoutSeconds),
+      };
+    }
+
+    if (nodeMs !== null) {
+      return {
+        ms: Math.max(nodeMs, 0),
+        error: new NodeTimeoutError(nodeTimeoutSeconds),
+      };
+    }
+
+    return null;
+  };
+
+  return {
+    signal: controller.signal,
+    run: async (fn) => {
+      const limit = getLimit();
+
+      if (!limit) {
+        return fn();
+      }
+
+      const timer = setTimeout(() => controller.abort(limit.error), limit.ms);
+
+      try {
+        return await abortable(fn(), controller.signal);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+};
+
+/**
+ * Settle with the promise, or reject with the abort reason when the signal
+ * aborts first
+ */
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal
+): Promise<T> => {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+};
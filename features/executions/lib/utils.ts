@@ -0,0 +1,60 @@
+import type { NodeStatus } from '@/components/react-flow/node-status-indicator';
+import { NodeExecutionStatus } from '@/lib/generated/prisma/enums';
+
+/**
+ * Format a duration in milliseconds as a short human readable string
+ * (e.g. `850ms`, `12.4s`, `3m 05s`, `2d 04h`)
+ */
+export const formatDuration = (
+  duration: number | bigint | null | undefined
+) => {
+  if (duration === null || duration === undefined) {
+    return '—';
+  }
+
+  const ms = Number(duration);
+
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+
+  if (minutes < 60) {
+    return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+
+  if (hours < 24) {
+    return `${hours}h ${(minutes % 60).toString().padStart(2, '0')}m`;
+  }
+
+  // Executions waiting on an approval or a Wait node can run for days
+  return `${Math.floor(hours / 24)}d ${(hours % 24).toString().padStart(2, '0')}h`;
+};
+
+/**
+ * Map a persisted node execution status to the status shown on the canvas
+ */
+export const toNodeStatus = (
+  status: NodeExecutionStatus | null | undefined
+): NodeStatus => {
+  switch (status) {
+    case NodeExecutionStatus.RUNNING:
+    case NodeExecutionStatus.WAITING:
+      return 'loading';
+    case NodeExecutionStatus.SUCCESS:
+      return 'success';
+    case NodeExecutionStatus.ERROR:
+    case NodeExecutionStatus.TIMED_OUT:
+      return 'error';
+    default:
+      return 'initial';
+  }
+};
@@ -0,0 +1,83 @@
+import type { WorkflowContext } from '../types';
+import { resolveTemplateValue } from './templating';
+
+export type WaitMode = 'duration' | 'until';
+
+export const WAIT_UNITS = {
+  seconds: 1,
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+};
+
+export type WaitUnit = keyof typeof WAIT_UNITS;
+
+// Inngest sleeps for up to a year
+export const WAIT_MAX_DAYS = 365;
+
+export interface WaitSettings {
+  mode?: WaitMode;
+  /** Number of `unit`s, may be a template such as `{{delayDays}}` */
+  amount?: string;
+  unit?: WaitUnit;
+  /** Date and time to resume at, may be a template */
+  until?: string;
+}
+
+export class WaitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WaitError';
+  }
+}
+
+/**
+ * Work out when a Wait node resumes, relative to `now` or at the configured
+ * date. Dates in the past resume straight away.
+ */
+export const getResumeAt = (
+  { mode = 'duration', amount, unit = 'seconds', until }: WaitSettings,
+  context: WorkflowContext,
+  now: Date
+): Date => {
+  let resumeAt: Date;
+
+  if (mode === 'until') {
+    if (!until?.trim()) {
+      throw new WaitError('resume date is not configured');
+    }
+
+    const value = resolveTemplateValue(until, context);
+    resumeAt =
+      typeof value === 'string' || typeof value === 'number'
+        ? new Date(value)
+        : new Date(NaN);
+
+    if (Number.isNaN(resumeAt.getTime())) {
+      throw new WaitError(`"${String(value)}" is not a valid date`);
+    }
+  } else {
+    if (!amount?.trim()) {
+      throw new WaitError('duration is not configured');
+    }
+
+    if (!(unit in WAIT_UNITS)) {
+      throw new WaitError(`"${unit}" is not a valid unit`);
+    }
+
+    const value = resolveTemplateValue(amount, context);
+    const count = typeof value === 'string' ? Number(value.trim()) : value;
+
+    if (typeof count !== 'number' || !Number.isFinite(count) || count < 0) {
+      throw new WaitError(`"${String(value)}" is not a valid duration`);
+    }
+
+    resumeAt = new Date(now.getTime() + count * WAIT_UNITS[unit] * 1000);
+  }
+
+  if (resumeAt.getTime() - now.getTime() > WAIT_MAX_DAYS * 86400 * 1000) {
+    throw new WaitError(`cannot wait more than ${WAIT_MAX_DAYS} days`);
+  }
+
+  return resumeAt;
+};
@@ -0,0 +1,35 @@
+import {
+  parseAsInteger,
+  parseAsIsoDate,
+  parseAsString,
+  parseAsStringEnum,
+  parseAsStringLiteral,
+} from 'nuqs/server';
+import { PAGINATION } from '@/config/constants';
+import { ExecutionStatus, NodeType } from '@/lib/generated/prisma/enums';
+
+export const EXECUTIONS_SORT_FIELDS = ['startedAt', 'duration'] as const;
+export const EXECUTIONS_SORT_ORDERS = ['desc', 'asc'] as const;
+
+export const executionsParams = {
+  page: parseAsInteger
+    .withDefault(PAGINATION.DEFAULT_PAGE)
+    .withOptions({ clearOnDefault: true }),
+  pageSize: parseAsInteger
+    .withDefault(PAGINATION.DEFAULT_PAGE_SIZE)
+    .withOptions({ clearOnDefault: true }),
+  search: parseAsString.withDefault('').withOptions({ clearOnDefault: true }),
+  workflowId: parseAsString
+    .withDefault('')
+    .withOptions({ clearOnDefault: true }),
+  status: parseAsStringEnum(Object.values(ExecutionStatus)),
+  triggerType: parseAsStringEnum(Object.values(NodeType)),
+  from: parseAsIsoDate,
+  to: parseAsIsoDate,
+  sortBy: parseAsStringLiteral(EXECUTIONS_SORT_FIELDS)
+    .withDefault('startedAt')
+    .withOptions({ clearOnDefault: true }),
+  sortOrder: parseAsStringLiteral(EXECUTIONS_SORT_ORDERS)
+    .withDefault('desc')
+    .withOptions({ clearOnDefault: true }),
+};
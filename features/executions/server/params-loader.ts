@@ -0,0 +1,4 @@
+import { createLoader } from 'nuqs/server';
+import { executionsParams } from '../params';
+
+export const executionsParamsLoader = createLoader(executionsParams);
@@ -0,0 +1,306 @@
+import prisma from '@/lib/db';
+import { createTRPCRouter, protectedProcedure } from '@/trpc/init';
+import z from 'zod';
+import { TRPCError } from '@trpc/server';
+import { createId } from '@paralleldrive/cuid2';
+import { PAGINATION } from '@/config/constants';
+import { endOfDay } from 'date-fns';
+import {
+  ApprovalStatus,
+  ExecutionStatus,
+  NodeType,
+} from '@/lib/generated/prisma/enums';
+import type {
+  Connection,
+  Node,
+  Prisma,
+} from '@/lib/generated/prisma/client';
+import { toReactFlowGraph } from '@/features/workflows/lib/react-flow';
+import { getSubscriptionToken } from '@inngest/realtime';
+import { inngest } from '@/inngest/client';
+import { nodeStatusChannel } from '@/inngest/channels/node-status';
+import { cancelExecution, createRetryExecution } from '../lib/execution-store';
+import { getApprovalUrls } from '../lib/approvals';
+import { EXECUTIONS_SORT_FIELDS, EXECUTIONS_SORT_ORDERS } from '../params';
+
+type WorkflowSnapshot = {
+  nodes: Node[];
+  connections: Connection[];
+};
+
+export const executionsRouter = createTRPCRouter({
+  getNodeStatusToken: protectedProcedure
+    .input(z.object({ workflowId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await prisma.workflow.findUniqueOrThrow({
+        where: { id: input.workflowId, userId: ctx.auth.user.id },
+        select: { id: true },
+      });
+
+      return getSubscriptionToken(inngest, {
+        channel: nodeStatusChannel(input.workflowId),
+        topics: ['status'],
+      });
+    }),
+  cancel: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const execution = await prisma.execution.findUniqueOrThrow({
+        where: {
+          id: input.id,
+          workflow: { userId: ctx.auth.user.id },
+        },
+        select: { id: true, status: true },
+      });
+
+      if (execution.status !== ExecutionStatus.RUNNING) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only running executions can be cancelled',
+        });
+      }
+
+      await inngest.send({
+        name: 'workflow/cancel.execution',
+        data: { executionId: execution.id },
+      });
+
+      // Inngest stops the run between steps, the node in flight is marked
+      // right away instead of waiting for it
+      const cancelled = await cancelExecution({ executionId: execution.id });
+
+      if (!cancelled) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The execution finished before it could be cancelled',
+        });
+      }
+
+      return cancelled;
+    }),
+  retry: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        useCurrentVersion: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const execution = await prisma.execution.findUniqueOrThrow({
+        where: {
+          id: input.id,
+          workflow: { userId: ctx.auth.user.id },
+        },
+        select: {
+          id: true,
+          status: true,
+          workflowId: true,
+          triggerType: true,
+          partialNodeId: true,
+        },
+      });
+
+      if (execution.status !== ExecutionStatus.ERROR) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only failed executions can be retried',
+        });
+      }
+
+      // A retry runs the whole workflow, including the nodes after the step
+      // that was executed
+      if (execution.partialNodeId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message:
+            'Executed steps cannot be retried, execute the step again from the editor',
+        });
+      }
+
+      const executionId = createId();
+
+      // Created here rather than by the engine, so that a second request
+      // sees the retry right away
+      const retry = await createRetryExecution({
+        executionId,
+        retryOf: execution,
+      });
+
+      // The nodes that succeeded in the retry would run twice, a retry
+      // that failed is retried in turn and reuses the runs of both
+      if (!retry) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message:
+            'This execution was already retried, retry its latest retry instead',
+        });
+      }
+
+      try {
+        await inngest.send({
+          name: 'workflow/execute.workflow',
+          data: {
+            workflowId: execution.workflowId,
+            executionId,
+            triggerType: execution.triggerType,
+            retryOfExecutionId: execution.id,
+            useCurrentVersion: input.useCurrentVersion,
+          },
+        });
+      } catch (error) {
+        // Nothing will run it, the execution can be retried again
+        await prisma.execution.delete({ where: { id: executionId } });
+        throw error;
+      }
+
+      return { id: executionId };
+    }),
+  getOne: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { workflowSnapshot, ...execution } =
+        await prisma.execution.findUniqueOrThrow({
+          where: {
+            id: input.id,
+            workflow: { userId: ctx.auth.user.id },
+          },
+          include: {
+            workflow: {
+              select: { id: true, name: true },
+            },
+            nodeExecutions: {
+              orderBy: { startedAt: 'asc' },
+            },
+            approvals: {
+              where: { status: ApprovalStatus.PENDING },
+            },
+            parentExecution: {
+              select: { id: true, workflow: { select: { name: true } } },
+            },
+            retries: {
+              orderBy: { startedAt: 'asc' },
+              select: { id: true, status: true },
+            },
+            childExecutions: {
+              orderBy: { startedAt: 'asc' },
+              select: {
+                id: true,
+                status: true,
+                parentNodeId: true,
+                startedAt: true,
+                workflow: { select: { name: true } },
+              },
+            },
+          },
+        });
+
+      // Executions recorded before snapshots existed fall back to the
+      // current version of the workflow
+      const graph =
+        (workflowSnapshot as WorkflowSnapshot | null) ??
+        (await prisma.workflow.findUniqueOrThrow({
+          where: { id: execution.workflowId },
+          select: { nodes: true, connections: true },
+        }));
+
+      const { nodes, edges } = toReactFlowGraph(
+        graph.nodes,
+        graph.connections
+      );
+
+      // The owner can decide pending approvals through the same links
+      const approvals = execution.approvals.map((approval) => ({
+        ...approval,
+        ...getApprovalUrls(approval.id),
+      }));
+
+      return { ...execution, approvals, nodes, edges };
+    }),
+  getMany: protectedProcedure
+    .input(
+      z.object({
+        page: z.number().default(PAGINATION.DEFAULT_PAGE),
+        pageSize: z
+          .number()
+          .min(PAGINATION.MIN_PAGE_SIZE)
+          .max(PAGINATION.MAX_PAGE_SIZE)
+          .default(PAGINATION.DEFAULT_PAGE_SIZE),
+        search: z.string().default(''),
+        workflowId: z.string().default(''),
+        status: z.enum(ExecutionStatus).nullish(),
+        triggerType: z.enum(NodeType).nullish(),
+        from: z.date().nullish(),
+        to: z.date().nullish(),
+        sortBy: z.enum(EXECUTIONS_SORT_FIELDS).default('startedAt'),
+        sortOrder: z.enum(EXECUTIONS_SORT_ORDERS).default('desc'),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const {
+        page,
+        pageSize,
+        search,
+        workflowId,
+        status,
+        triggerType,
+        from,
+        to,
+        sortBy,
+        sortOrder,
+      } = input;
+
+      const where: Prisma.ExecutionWhereInput = {
+        workflow: {
+          userId: ctx.auth.user.id,
+          name: {
+            contains: search,
+            mode: 'insensitive',
+          },
+        },
+        ...(workflowId && { workflowId }),
+        ...(status && { status }),
+        ...(triggerType && { triggerType }),
+        startedAt: {
+          ...(from && { gte: from }),
+          ...(to && { lte: endOfDay(to) }),
+        },
+      };
+
+      const orderBy: Prisma.ExecutionOrderByWithRelationInput[] =
+        sortBy === 'duration'
+          ? [
+              { durationMs: { sort: sortOrder, nulls: 'last' } },
+              { startedAt: 'desc' },
+            ]
+          : [{ startedAt: sortOrder }];
+
+      const [items, totalCount] = await Promise.all([
+        prisma.execution.findMany({
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          where,
+          include: {
+            workflow: {
+              select: { id: true, name: true },
+            },
+          },
+          orderBy,
+        }),
+        prisma.execution.count({ where }),
+      ]);
+
+      const totalPages = Math.ceil(totalCount / pageSize);
+      const hasNextPage = page < totalPages;
+      const hasPreviousPage = page > 1;
+
+      return {
+        items,
+        page,
+        pageSize,
+        totalCount,
+        totalPages,
+        hasNextPage,
+        hasPreviousPage,
+      };
+    }),
+});
@@ -1,17 +1,120 @@
 import type { GetStepTools, Inngest } from 'inngest';
+import type { NodeStatus } from '@/components/react-flow/node-status-indicator';
 
 export type WorkflowContext = Record<string, unknown>;
 
+/**
+ * File attached to an item, e.g. a downloaded PDF
+ */
+export interface BinaryData {
+  mimeType: string;
+  fileName?: string;
+  /** Base64 encoded content */
+  data: string;
+}
+
+/**
+ * Unit of data passed between nodes. Nodes receive and emit lists of items,
+ * and run once per item unless set to run once for all of them.
+ */
+export interface WorkflowItem {
+  json: WorkflowContext;
+  binary?: Record<string, BinaryData>;
+}
+
 export type StepTools = GetStepTools<Inngest.Any>;
 
+/**
+ * Publish the status of the node being executed to the editor canvas.
+ * The engine already publishes loading / success / error around each node.
+ * Resolves to false when the status could not be published, which is safe to
+ * ignore.
+ */
+export type NodeStatusPublisher = (status: NodeStatus) => Promise<boolean>;
+
 export interface NodeExecutorParams<TData = Record<string, unknown>> {
   data: TData;
   nodeId: string;
+  executionId: string;
+  /** Which run of the node, nodes inside a loop run once per batch */
+  runIndex: number;
+  /**
+   * Read-only view of what ran before the node, for templates: the output of
+   * every upstream node under its variable name, the same under `$node` for
+   * names that are not identifiers, and the current item as `$json`
+   */
   context: WorkflowContext;
+  /**
+   * Items this call handles: the current item, or every item delivered to
+   * the node when it runs once for all items. Nodes that pass data on emit
+   * these.
+   */
+  items: WorkflowItem[];
+  /** Position of the current item, 0 when the node runs once for all items */
+  itemIndex: number;
+  /** Every item delivered to each input handle, for nodes with several inputs */
+  inputs: Record<string, WorkflowItem[]>;
   step: StepTools;
-  // publish: TODO add realtime later
+  publish: NodeStatusPublisher;
+  /**
+   * Aborted when the node runs out of time. Steps are already cut short by
+   * the engine, pass it on to requests so they stop as well.
+   */
+  signal: AbortSignal;
+  /** Time the execution must finish by, null without a workflow timeout */
+  deadline: Date | null;
+  /**
+   * Run the nodes connected to one of the node's `SUBGRAPH_OUTPUTS` with the
+   * given items, and resolve with the items that reached the end of them
+   */
+  runSubgraph: (
+    output: string,
+    items: WorkflowItem[]
+  ) => Promise<WorkflowItem[]>;
+  /**
+   * Record that the node is paused until `resumeAt`, the execution shows it
+   * as waiting. Call it from within a step so replays do not repeat it.
+   */
+  markWaiting: (resumeAt: Date) => Promise<void>;
+}
+
+/**
+ * Items emitted by a node, keyed by the output handle they leave through.
+ * Only nodes connected to an output that emitted items run next.
+ */
+export type NodeOutputs = Record<string, WorkflowItem[]>;
+
+export interface NodeExecutionResult {
+  outputs: NodeOutputs;
+}
+
+export type RetryBackoff = 'fixed' | 'exponential';
+
+export interface NodeRetryPolicy {
+  maxRetries: number;
+  backoff: RetryBackoff;
+  delaySeconds: number;
+}
+
+/**
+ * Error handling settings shared by every execution node, stored under
+ * `settings` in the node data
+ */
+export interface NodeSettings {
+  retry: NodeRetryPolicy;
+  /** Pass the error on through the main output instead of failing the run */
+  continueOnFail: boolean;
+  /** Pass the error on through a dedicated `error` output */
+  errorOutput: boolean;
+  /** Max duration of each attempt, 0 for no limit */
+  timeoutSeconds: number;
+  /**
+   * Call the executor once with every item instead of once per item. Node
+   * types in `RUN_ONCE_NODE_TYPES` always do.
+   */
+  runOnceForAllItems: boolean;
 }
 
 export type NodeExecutor<TData = Record<string, unknown>> = (
   params: NodeExecutorParams<TData>
-) => Promise<WorkflowContext>;
+) => Promise<NodeExecutionResult>;
@@ -1,12 +1,21 @@
 'use client';
 
 import { type NodeProps, Position, useReactFlow } from '@xyflow/react';
-import type { LucideIcon } from 'lucide-react';
+import { type LucideIcon, PinIcon, VariableIcon } from 'lucide-react';
 import Image from 'next/image';
-import { memo, type ReactNode } from 'react';
+import { useParams } from 'next/navigation';
+import { memo, type ReactNode, useState } from 'react';
 import { BaseNode, BaseNodeContent } from '@/components/react-flow/base-node';
 import { BaseHandle } from '@/components/react-flow/base-handle';
 import { WorkflowNode } from '@/components/workflow-node';
+import { Button } from '@/components/ui/button';
+import { VariableNameDialog } from '@/features/executions/components/variable-name-dialog';
+import { PinnedDataDialog } from '@/features/executions/components/pinned-data-dialog';
+import { useNodeItemCount } from '@/features/executions/hooks/use-node-status';
+import { PARTIAL_EXECUTION_MODES } from '@/features/executions/lib/partial-execution';
+import { getPinnedItems } from '@/features/executions/lib/pinned-data';
+import { useExecuteWorkflowNode } from '@/features/workflows/hooks/use-workflows';
+import { getSavedVariableName } from '@/features/workflows/lib/variable-names';
 import {
   type NodeStatus,
   NodeStatusIndicator,
@@ -25,6 +34,7 @@ interface BaseTriggerNodeProps extends NodeProps {
 export const BaseTriggerNode = memo(
   ({
     id,
+    data,
     icon: Icon,
     name,
     description,
@@ -34,6 +44,14 @@ export const BaseTriggerNode = memo(
     onDoubleClick,
   }: BaseTriggerNodeProps) => {
     const { setNodes, setEdges } = useReactFlow();
+    const [variableNameOpen, setVariableNameOpen] = useState(false);
+    const [pinnedDataOpen, setPinnedDataOpen] = useState(false);
+    const { workflowId } = useParams<{ workflowId: string }>();
+    const executeNode = useExecuteWorkflowNode();
+    const itemCount = useNodeItemCount(id);
+
+    const variableName = getSavedVariableName(data) ?? '';
+    const pinned = getPinnedItems(data) !== undefined;
 
     const handleDelete = () => {
       setNodes((currentNodes) => {
@@ -53,9 +71,51 @@ export const BaseTriggerNode = memo(
       <WorkflowNode
         name={name}
         description={description}
+        variableName={variableName}
+        itemCount={itemCount}
         onDelete={handleDelete}
         onSettings={onSettings}
+        // Triggers have no nodes before them to execute up to
+        onExecuteStep={() =>
+          executeNode.mutate({
+            id: workflowId,
+            nodeId: id,
+            mode: PARTIAL_EXECUTION_MODES.STEP,
+          })
+        }
+        actions={
+          <>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Variable name"
+              onClick={() => setVariableNameOpen(true)}
+            >
+              <VariableIcon className="size-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant={pinned ? 'secondary' : 'ghost'}
+              title="Pinned data"
+              onClick={() => setPinnedDataOpen(true)}
+            >
+              <PinIcon className="size-4" />
+            </Button>
+          </>
+        }
       >
+        <VariableNameDialog
+          open={variableNameOpen}
+          onOpenChange={setVariableNameOpen}
+          nodeId={id}
+          variableName={variableName}
+        />
+        <PinnedDataDialog
+          open={pinnedDataOpen}
+          onOpenChange={setPinnedDataOpen}
+          nodeId={id}
+          data={data}
+        />
         <NodeStatusIndicator
           status={status}
           variant="border"
@@ -0,0 +1,50 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ErrorTriggerDialog({ open, onOpenChange }: Props) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Error Trigger</DialogTitle>
+          <DialogDescription>
+            Starts this workflow when another workflow fails.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 space-y-2 text-sm text-muted-foreground">
+          <p>
+            Select this workflow as the error workflow in the settings of the
+            workflows to watch. When one of their executions fails, this
+            workflow runs with:
+          </p>
+          <ul className="list-disc pl-5 font-mono text-xs space-y-1">
+            <li>
+              {'{{workflow.id}}'}, {'{{workflow.name}}'}
+            </li>
+            <li>{'{{execution.id}}'}</li>
+            <li>
+              {'{{node.id}}'}, {'{{node.name}}'}, {'{{node.type}}'}
+            </li>
+            <li>
+              {'{{error.message}}'}, {'{{error.stack}}'}
+            </li>
+          </ul>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ErrorTriggerDialog;
@@ -0,0 +1,17 @@
+import type { NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+
+type ErrorTriggerData = Record<string, unknown>;
+
+/**
+ * The failure details are sent as the initial data of the run, see
+ * `ErrorWorkflowPayload`
+ */
+export const errorTriggerExecutor: NodeExecutor<ErrorTriggerData> = async ({
+  nodeId,
+  items,
+  step,
+}) => {
+  const result = await step.run(`error-trigger:${nodeId}`, async () => items);
+  return emitOutput(result);
+};
@@ -0,0 +1,29 @@
+import { NodeProps } from '@xyflow/react';
+import { memo, useState } from 'react';
+import { BaseTriggerNode } from '../base-trigger-node';
+import { SirenIcon } from 'lucide-react';
+import ErrorTriggerDialog from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+
+export const ErrorTriggerNode = memo((props: NodeProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  return (
+    <>
+      <ErrorTriggerDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+      <BaseTriggerNode
+        {...props}
+        icon={SirenIcon}
+        name="When another workflow fails"
+        status={nodeStatus}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+ErrorTriggerNode.displayName = 'ErrorTriggerNode';
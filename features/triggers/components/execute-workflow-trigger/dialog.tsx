@@ -0,0 +1,42 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ExecuteWorkflowTriggerDialog({ open, onOpenChange }: Props) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Execute Workflow Trigger</DialogTitle>
+          <DialogDescription>
+            Starts this workflow when an Execute Workflow node calls it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 space-y-2 text-sm text-muted-foreground">
+          <p>
+            The run starts with the input mapped by the calling node, or with
+            all of its input when nothing is mapped.
+          </p>
+          <p>
+            When the calling node waits for the result, it receives the data
+            that reached the end of this workflow as{' '}
+            <span className="font-mono text-xs">{'{{subWorkflow.data}}'}</span>.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExecuteWorkflowTriggerDialog;
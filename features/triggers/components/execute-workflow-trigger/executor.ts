@@ -0,0 +1,18 @@
+import type { NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
+
+type ExecuteWorkflowTriggerData = Record<string, unknown>;
+
+/**
+ * The items mapped by the calling Execute Workflow node is sent as the
+ * initial data of the run
+ */
+export const executeWorkflowTriggerExecutor: NodeExecutor<
+  ExecuteWorkflowTriggerData
+> = async ({ nodeId, items, step }) => {
+  const result = await step.run(
+    `execute-workflow-trigger:${nodeId}`,
+    async () => items
+  );
+  return emitOutput(result);
+};
@@ -0,0 +1,32 @@
+import { NodeProps } from '@xyflow/react';
+import { memo, useState } from 'react';
+import { BaseTriggerNode } from '../base-trigger-node';
+import { LogInIcon } from 'lucide-react';
+import ExecuteWorkflowTriggerDialog from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
+
+export const ExecuteWorkflowTriggerNode = memo((props: NodeProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const nodeStatus = useNodeStatus(props.id);
+
+  const handleOpenSettings = () => setDialogOpen(true);
+
+  return (
+    <>
+      <ExecuteWorkflowTriggerDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+      <BaseTriggerNode
+        {...props}
+        icon={LogInIcon}
+        name="When called by a workflow"
+        status={nodeStatus}
+        onSettings={handleOpenSettings}
+        onDoubleClick={handleOpenSettings}
+      />
+    </>
+  );
+});
+
+ExecuteWorkflowTriggerNode.displayName = 'ExecuteWorkflowTriggerNode';
@@ -1,17 +1,13 @@
 import type { NodeExecutor } from '@/features/executions/types';
+import { emitOutput } from '@/features/executions/lib/outputs';
 
 type ManualTriggerData = Record<string, unknown>;
 
 export const manualTriggerExecutor: NodeExecutor<ManualTriggerData> = async ({
   nodeId,
-  context,
+  items,
   step,
 }) => {
-  // TODO: Publish "loading" state for manual trigger
-
-  const result = await step.run('manual-trigger', async () => context);
-
-  // TODO: Publish "success" state for manual trigger
-
-  return result;
+  const result = await step.run(`manual-trigger:${nodeId}`, async () => items);
+  return emitOutput(result);
 };
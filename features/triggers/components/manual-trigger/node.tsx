@@ -3,9 +3,11 @@ import { memo, useState } from 'react';
 import { BaseTriggerNode } from '../base-trigger-node';
 import { MousePointerIcon } from 'lucide-react';
 import ManualTriggerDialog from './dialog';
+import { useNodeStatus } from '@/features/executions/hooks/use-node-status';
 
 export const ManualTriggerNode = memo((props: NodeProps) => {
   const [dialogOpen, setDialogOpen] = useState(false);
+  const nodeStatus = useNodeStatus(props.id);
 
   const handleOpenSettings = () => setDialogOpen(true);
 
@@ -16,6 +18,7 @@ export const ManualTriggerNode = memo((props: NodeProps) => {
         {...props}
         icon={MousePointerIcon}
         name="When clicking 'Execute workflow'"
+        status={nodeStatus}
         onSettings={handleOpenSettings}
         onDoubleClick={handleOpenSettings}
       />
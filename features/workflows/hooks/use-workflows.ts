@@ -5,6 +5,7 @@ import {
   useSuspenseQuery,
 } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { useRouter } from 'next/navigation';
 import { useWorkflowsParams } from './use-workflows-params';
 
 /**
@@ -96,6 +97,29 @@ export const useUpdateWorkflowName = () => {
   );
 };
 
+/**
+ * Hook to update workflow settings
+ */
+
+export const useUpdateWorkflowSettings = () => {
+  const queryClient = useQueryClient();
+  const trpc = useTRPC();
+
+  return useMutation(
+    trpc.workflows.updateSettings.mutationOptions({
+      onSuccess: (data) => {
+        toast.success(`Workflow "${data.name}" settings updated.`);
+        queryClient.invalidateQueries(
+          trpc.workflows.getOne.queryOptions({ id: data.id })
+        );
+      },
+      onError: (error) => {
+        toast.error(`Failed to update workflow settings: ${error.message}`);
+      },
+    })
+  );
+};
+
 /**
  * Hook to update a workflow
  */
@@ -126,11 +150,13 @@ export const useUpdateWorkflow = () => {
 
 export const useExecuteWorkflow = () => {
   const trpc = useTRPC();
+  const queryClient = useQueryClient();
 
   return useMutation(
     trpc.workflows.execute.mutationOptions({
       onSuccess: (data) => {
         toast.success(`Workflow "${data.name}" executed.`);
+        queryClient.invalidateQueries(trpc.executions.getMany.queryFilter());
       },
       onError: (error) => {
         toast.error(`Failed to execute workflow: ${error.message}`);
@@ -138,3 +164,29 @@ export const useExecuteWorkflow = () => {
     })
   );
 };
+
+/**
+ * Hook to execute a single node of a workflow, or the nodes up to it
+ */
+export const useExecuteWorkflowNode = () => {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  return useMutation(
+    trpc.workflows.executeNode.mutationOptions({
+      onSuccess: (data) => {
+        toast.success('Step executed.', {
+          action: {
+            label: 'View',
+            onClick: () => router.push(`/executions/${data.executionId}`),
+          },
+        });
+        queryClient.invalidateQueries(trpc.executions.getMany.queryFilter());
+      },
+      onError: (error) => {
+        toast.error(`Failed to execute step: ${error.message}`);
+      },
+    })
+  );
+};
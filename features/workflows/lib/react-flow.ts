@@ -0,0 +1,43 @@
+import type { Node, Edge } from '@xyflow/react';
+import type {
+  Connection,
+  Node as WorkflowNode,
+} from '@/lib/generated/prisma/client';
+import { getVariableNames } from './variable-names';
+
+type GraphNode = Pick<WorkflowNode, 'id' | 'type' | 'position' | 'data'>;
+type GraphConnection = Pick<
+  Connection,
+  'id' | 'fromNodeId' | 'toNodeId' | 'fromOutput' | 'toInput'
+>;
+
+/**
+ * Transform server nodes and connections to react-flow compatible nodes and
+ * edges. Nodes saved before variable names existed get their default one.
+ */
+export const toReactFlowGraph = (
+  nodes: GraphNode[],
+  connections: GraphConnection[]
+) => {
+  const variableNames = getVariableNames(nodes);
+
+  const reactFlowNodes: Node[] = nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    position: node.position as { x: number; y: number },
+    data: {
+      ...(node.data as Record<string, unknown>),
+      variableName: variableNames.get(node.id),
+    },
+  }));
+
+  const reactFlowEdges: Edge[] = connections.map((connection) => ({
+    id: connection.id,
+    source: connection.fromNodeId,
+    target: connection.toNodeId,
+    sourceHandle: connection.fromOutput,
+    targetHandle: connection.toInput,
+  }));
+
+  return { nodes: reactFlowNodes, edges: reactFlowEdges };
+};
@@ -0,0 +1,253 @@
+import { TRIGGER_NODE_TYPES } from '@/config/constants';
+import { NodeType } from '@/lib/generated/prisma/enums';
+import { getVariableNameError, getVariableNames } from './variable-names';
+
+type GraphNode = { id: string; type?: string | null; data?: unknown };
+
+export type GraphEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+};
+
+export type WorkflowIssueCode =
+  | 'cycle'
+  | 'duplicate-variable-name'
+  | 'edge-into-trigger'
+  | 'invalid-variable-name'
+  | 'unknown-node';
+
+/**
+ * Problem found in the graph of a workflow, with the nodes and edges to
+ * highlight in the editor
+ */
+export interface WorkflowIssue {
+  code: WorkflowIssueCode;
+  message: string;
+  nodeIds: string[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Thrown by `workflows.update` when the graph is invalid, the issues are sent
+ * to the client as `data.issues`
+ */
+export class WorkflowValidationError extends Error {
+  constructor(public readonly issues: WorkflowIssue[]) {
+    super(
+      issues.length === 1
+        ? issues[0].message
+        : `${issues[0].message} (and ${issues.length - 1} more issues)`
+    );
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+/**
+ * Identify an edge by its endpoints, saved edges have no stable id
+ */
+export const getEdgeKey = (edge: GraphEdge) => {
+  return `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+};
+
+/**
+ * Nodes that can be reached from the start nodes by following connections,
+ * the start nodes included
+ */
+export const getReachableNodeIds = (
+  startNodeIds: string[],
+  edges: GraphEdge[]
+) => {
+  const reachable = new Set(startNodeIds);
+  const queue = [...startNodeIds];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+
+    for (const edge of edges) {
+      if (edge.source === nodeId && !reachable.has(edge.target)) {
+        reachable.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+
+  return reachable;
+};
+
+/**
+ * Nodes no trigger leads to, they never run. The placeholder shown in empty
+ * workflows does not count.
+ */
+export const getDisconnectedNodeIds = (
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+) => {
+  const triggerIds = nodes
+    .filter((node) => TRIGGER_NODE_TYPES.includes(node.type as NodeType))
+    .map((node) => node.id);
+  const reachable = getReachableNodeIds(triggerIds, edges);
+
+  return nodes
+    .filter((node) => node.type !== NodeType.INITIAL && !reachable.has(node.id))
+    .map((node) => node.id);
+};
+
+/**
+ * Strongly connected components with more than one node, or a single node
+ * connected to itself: every node in them is part of a cycle (Tarjan)
+ */
+const findCycles = (nodeIds: string[], edges: GraphEdge[]) => {
+  const successors = new Map<string, string[]>(nodeIds.map((id) => [id, []]));
+
+  for (const edge of edges) {
+    successors.get(edge.source)?.push(edge.target);
+  }
+
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (nodeId: string) => {
+    indexes.set(nodeId, nextIndex);
+    lowLinks.set(nodeId, nextIndex);
+    nextIndex++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const successor of successors.get(nodeId) ?? []) {
+      if (!indexes.has(successor)) {
+        visit(successor);
+        lowLinks.set(
+          nodeId,
+          Math.min(lowLinks.get(nodeId)!, lowLinks.get(successor)!)
+        );
+      } else if (onStack.has(successor)) {
+        lowLinks.set(
+          nodeId,
+          Math.min(lowLinks.get(nodeId)!, indexes.get(successor)!)
+        );
+      }
+    }
+
+    if (lowLinks.get(nodeId) === indexes.get(nodeId)) {
+      const component: string[] = [];
+      let member: string;
+
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+
+      components.push(component);
+    }
+  };
+
+  for (const nodeId of nodeIds) {
+    if (!indexes.has(nodeId)) {
+      visit(nodeId);
+    }
+  }
+
+  return components.filter(
+    (component) =>
+      component.length > 1 ||
+      successors.get(component[0])?.includes(component[0])
+  );
+};
+
+/**
+ * Check the structure of a workflow graph before it is saved or executed.
+ * Returns every issue found, an empty list for a valid graph.
+ */
+export const validateWorkflowGraph = (
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): WorkflowIssue[] => {
+  const issues: WorkflowIssue[] = [];
+  const nodeTypes = new Map(nodes.map((node) => [node.id, node.type]));
+
+  const danglingEdges = edges.filter(
+    (edge) => !nodeTypes.has(edge.source) || !nodeTypes.has(edge.target)
+  );
+
+  for (const edge of danglingEdges) {
+    const missing = [edge.source, edge.target].filter(
+      (id) => !nodeTypes.has(id)
+    );
+
+    issues.push({
+      code: 'unknown-node',
+      message: `Connection references unknown node ${missing.join(', ')}`,
+      nodeIds: [edge.source, edge.target].filter((id) => nodeTypes.has(id)),
+      edges: [edge],
+    });
+  }
+
+  for (const edge of edges) {
+    const targetType = nodeTypes.get(edge.target);
+
+    if (targetType && TRIGGER_NODE_TYPES.includes(targetType as NodeType)) {
+      issues.push({
+        code: 'edge-into-trigger',
+        message: 'Trigger nodes cannot have incoming connections',
+        nodeIds: [edge.target],
+        edges: [edge],
+      });
+    }
+  }
+
+  const knownEdges = edges.filter((edge) => !danglingEdges.includes(edge));
+
+  for (const component of findCycles([...nodeTypes.keys()], knownEdges)) {
+    const members = new Set(component);
+
+    issues.push({
+      code: 'cycle',
+      message:
+        component.length === 1
+          ? 'Node is connected to itself'
+          : `Workflow contains a cycle between ${component.length} nodes`,
+      nodeIds: component,
+      edges: knownEdges.filter(
+        (edge) => members.has(edge.source) && members.has(edge.target)
+      ),
+    });
+  }
+
+  // Outputs are looked up by variable name, two nodes cannot share one
+  const nodeIdsByName = new Map<string, string[]>();
+
+  for (const [nodeId, name] of getVariableNames(nodes)) {
+    const error = getVariableNameError(name);
+
+    if (error) {
+      issues.push({
+        code: 'invalid-variable-name',
+        message: `${error} ("${name}")`,
+        nodeIds: [nodeId],
+        edges: [],
+      });
+    }
+
+    nodeIdsByName.set(name, [...(nodeIdsByName.get(name) ?? []), nodeId]);
+  }
+
+  for (const [name, nodeIds] of nodeIdsByName) {
+    if (nodeIds.length > 1) {
+      issues.push({
+        code: 'duplicate-variable-name',
+        message: `${nodeIds.length} nodes are named "${name}"`,
+        nodeIds,
+        edges: [],
+      });
+    }
+  }
+
+  return issues;
+};
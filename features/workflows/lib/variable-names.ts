@@ -0,0 +1,115 @@
+import { NodeType } from '@/lib/generated/prisma/enums';
+
+type NamedNode = { id: string; type?: string | null; data?: unknown };
+
+export const VARIABLE_NAME_MAX_LENGTH = 64;
+
+/**
+ * First default variable name of each node type, the next ones are numbered
+ * (`httpResponse2`, ...). They match the keys nodes used to write into a
+ * shared context, so templates written back then keep working.
+ */
+const DEFAULT_VARIABLE_NAMES: Record<NodeType, string> = {
+  [NodeType.INITIAL]: 'initial',
+  [NodeType.MANUAL_TRIGGER]: 'trigger',
+  [NodeType.ERROR_TRIGGER]: 'errorTrigger',
+  [NodeType.EXECUTE_WORKFLOW_TRIGGER]: 'workflowTrigger',
+  [NodeType.HTTP_REQUEST]: 'httpResponse',
+  [NodeType.IF]: 'if',
+  [NodeType.SWITCH]: 'switch',
+  [NodeType.MERGE]: 'merge',
+  [NodeType.LOOP_OVER_ITEMS]: 'loop',
+  [NodeType.WAIT]: 'wait',
+  [NodeType.APPROVAL]: 'approval',
+  [NodeType.EXECUTE_WORKFLOW]: 'subWorkflow',
+};
+
+/**
+ * Variable name saved in the node data, if any
+ */
+export const getSavedVariableName = (data: unknown) => {
+  if (
+    data &&
+    typeof data === 'object' &&
+    'variableName' in data &&
+    typeof data.variableName === 'string'
+  ) {
+    return data.variableName;
+  }
+
+  return undefined;
+};
+
+/**
+ * Reason a variable name cannot be used, null when it can
+ */
+export const getVariableNameError = (name: string) => {
+  if (!name.trim()) {
+    return 'Name is required';
+  }
+
+  if (name !== name.trim()) {
+    return 'Name cannot start or end with a space';
+  }
+
+  if (name.length > VARIABLE_NAME_MAX_LENGTH) {
+    return `Name cannot be longer than ${VARIABLE_NAME_MAX_LENGTH} characters`;
+  }
+
+  // `$node`, `$json`, ... are added by the engine
+  if (name.startsWith('$')) {
+    return 'Names starting with $ are reserved';
+  }
+
+  return null;
+};
+
+/**
+ * Default variable name of a new node, not already taken by another node
+ */
+export const getDefaultVariableName = (
+  type: string | null | undefined,
+  takenNames: Iterable<string>
+) => {
+  const base = DEFAULT_VARIABLE_NAMES[type as NodeType] ?? 'node';
+  const taken = new Set(takenNames);
+
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  for (let index = 2; ; index++) {
+    if (!taken.has(`${base}${index}`)) {
+      return `${base}${index}`;
+    }
+  }
+};
+
+/**
+ * Variable name of every node, by node id. Nodes saved before names existed
+ * get a default one, numbered in the order of `nodes`.
+ */
+export const getVariableNames = (nodes: NamedNode[]) => {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const node of nodes) {
+    const name = getSavedVariableName(node.data);
+
+    if (name !== undefined) {
+      names.set(node.id, name);
+      taken.add(name);
+    }
+  }
+
+  for (const node of nodes) {
+    if (!names.has(node.id)) {
+      const name = getDefaultVariableName(node.type, taken);
+
+      names.set(node.id, name);
+      taken.add(name);
+    }
+  }
+
+  return names;
+};
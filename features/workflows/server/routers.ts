@@ -1,11 +1,25 @@
 import { generateSlug } from 'random-word-slugs';
+import { createId } from '@paralleldrive/cuid2';
 import prisma from '@/lib/db';
 import { createTRPCRouter, protectedProcedure } from '@/trpc/init';
 import z from 'zod';
-import { PAGINATION } from '@/config/constants';
+import { TRPCError } from '@trpc/server';
+import {
+  EXECUTION_TIMEOUT,
+  PAGINATION,
+  TRIGGER_NODE_TYPES,
+  WORKFLOW_PARALLELISM,
+} from '@/config/constants';
 import { NodeType } from '@/lib/generated/prisma/enums';
-import type { Node, Edge } from '@xyflow/react';
+import { toReactFlowGraph } from '../lib/react-flow';
+import { getVariableNames } from '../lib/variable-names';
+import {
+  validateWorkflowGraph,
+  WorkflowValidationError,
+} from '../lib/validation';
 import { inngest } from '@/inngest/client';
+import { getUpstreamNodeIds } from '@/inngest/utils';
+import { PARTIAL_EXECUTION_MODES } from '@/features/executions/lib/partial-execution';
 
 export const workflowsRouter = createTRPCRouter({
   execute: protectedProcedure
@@ -18,12 +32,70 @@ export const workflowsRouter = createTRPCRouter({
         },
       });
 
+      const executionId = createId();
+
       await inngest.send({
         name: 'workflow/execute.workflow',
-        data: { workflowId: input.id },
+        data: {
+          workflowId: input.id,
+          executionId,
+          triggerType: NodeType.MANUAL_TRIGGER,
+        },
       });
 
-      return workflow;
+      return { ...workflow, executionId };
+    }),
+  executeNode: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        nodeId: z.string(),
+        mode: z.enum([
+          PARTIAL_EXECUTION_MODES.STEP,
+          PARTIAL_EXECUTION_MODES.UP_TO,
+        ]),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const workflow = await prisma.workflow.findFirstOrThrow({
+        where: {
+          id: input.id,
+          userId: ctx.auth.user.id,
+        },
+        include: {
+          nodes: { select: { id: true, type: true } },
+          connections: true,
+        },
+      });
+
+      if (!workflow.nodes.some((node) => node.id === input.nodeId)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Save the workflow before executing this node',
+        });
+      }
+
+      // The run is listed under the trigger it starts from, if any
+      const upstream = getUpstreamNodeIds(input.nodeId, workflow.connections);
+      const trigger = workflow.nodes.find(
+        (node) =>
+          (node.id === input.nodeId || upstream.has(node.id)) &&
+          TRIGGER_NODE_TYPES.includes(node.type)
+      );
+
+      const executionId = createId();
+
+      await inngest.send({
+        name: 'workflow/execute.workflow',
+        data: {
+          workflowId: input.id,
+          executionId,
+          triggerType: trigger?.type ?? NodeType.MANUAL_TRIGGER,
+          partialExecution: { nodeId: input.nodeId, mode: input.mode },
+        },
+      });
+
+      return { id: workflow.id, name: workflow.name, executionId };
     }),
 
   create: protectedProcedure.mutation(({ ctx }) => {
@@ -80,6 +152,20 @@ export const workflowsRouter = createTRPCRouter({
         where: { id, userId: ctx.auth.user.id },
       });
 
+      const issues = validateWorkflowGraph(nodes, edges);
+
+      if (issues.length > 0) {
+        const error = new WorkflowValidationError(issues);
+
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error.message,
+          cause: error,
+        });
+      }
+
+      const variableNames = getVariableNames(nodes);
+
       // Transaction to ensure consistency
       return await prisma.$transaction(async (tx) => {
         // Delete existing nodes & connections (cascade deletes connections)
@@ -92,10 +178,11 @@ export const workflowsRouter = createTRPCRouter({
           data: nodes.map((node) => ({
             id: node.id,
             workflowId: id,
-            name: node.type || 'unknown',
+            // Node executions keep the name, shown in the inspector
+            name: variableNames.get(node.id)!,
             type: node.type as NodeType,
             position: node.position,
-            data: node.data || {},
+            data: { ...node.data, variableName: variableNames.get(node.id) },
           })),
         });
 
@@ -131,6 +218,51 @@ export const workflowsRouter = createTRPCRouter({
         },
       });
     }),
+  updateSettings: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        maxParallelism: z
+          .number()
+          .int()
+          .min(WORKFLOW_PARALLELISM.MIN)
+          .max(WORKFLOW_PARALLELISM.MAX),
+        errorWorkflowId: z.string().nullable(),
+        timeoutSeconds: z
+          .number()
+          .int()
+          .min(1)
+          .max(EXECUTION_TIMEOUT.MAX_WORKFLOW_SECONDS)
+          .nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.errorWorkflowId) {
+        if (input.errorWorkflowId === input.id) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A workflow cannot be its own error workflow',
+          });
+        }
+
+        await prisma.workflow.findUniqueOrThrow({
+          where: { id: input.errorWorkflowId, userId: ctx.auth.user.id },
+          select: { id: true },
+        });
+      }
+
+      return prisma.workflow.update({
+        where: {
+          id: input.id,
+          userId: ctx.auth.user.id,
+        },
+        data: {
+          maxParallelism: input.maxParallelism,
+          errorWorkflowId: input.errorWorkflowId,
+          timeoutSeconds: input.timeoutSeconds,
+        },
+      });
+    }),
   getOne: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
@@ -139,26 +271,17 @@ export const workflowsRouter = createTRPCRouter({
         include: { nodes: true, connections: true },
       });
 
-      // Transform server nodes to react-flow compatible nodes
-      const nodes: Node[] = workflow.nodes.map((node) => ({
-        id: node.id,
-        type: node.type,
-        position: node.position as { x: number; y: number },
-        data: node.data as Record<string, unknown>,
-      }));
-
-      // Transform server connections to react-flow compatible edges
-      const edges: Edge[] = workflow.connections.map((connection) => ({
-        id: connection.id,
-        source: connection.fromNodeId,
-        target: connection.toNodeId,
-        sourceHandle: connection.fromOutput,
-        targetHandle: connection.toInput,
-      }));
+      const { nodes, edges } = toReactFlowGraph(
+        workflow.nodes,
+        workflow.connections
+      );
 
       return {
         id: workflow.id,
         name: workflow.name,
+        maxParallelism: workflow.maxParallelism,
+        errorWorkflowId: workflow.errorWorkflowId,
+        timeoutSeconds: workflow.timeoutSeconds,
         nodes,
         edges,
       };
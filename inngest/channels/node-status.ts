@@ -0,0 +1,15 @@
+import { channel, topic } from '@inngest/realtime';
+import type { NodeStatus } from '@/components/react-flow/node-status-indicator';
+
+export type NodeStatusMessage = {
+  executionId: string;
+  nodeId: string;
+  status: NodeStatus;
+  /** Items the node emitted, sent once it succeeded */
+  itemCount?: number;
+};
+
+// One channel per workflow, so the editor only receives its own node updates
+export const nodeStatusChannel = channel(
+  (workflowId: string) => `workflow:${workflowId}`
+).addTopic(topic('status').type<NodeStatusMessage>());
@@ -1,48 +1,781 @@
 import { NonRetriableError } from 'inngest';
 import { inngest } from './client';
 import prisma from '@/lib/db';
-import { topologicalSort } from './utils';
+import {
+  getSubgraphNodeIds,
+  getUpstreamNodeIds,
+  NodeStepError,
+  normalizeInputHandle,
+  normalizeOutputHandle,
+  scopeStepTools,
+  topologicalSort,
+  toJsonValue,
+  withStepTimeout,
+} from './utils';
 import { getExecutor } from '@/features/executions/lib/executor-registry';
-import { NodeType } from '@/lib/generated/prisma/enums';
+import {
+  completeExecution,
+  completeNodeExecution,
+  pinNodeExecution,
+  recordNotExecutedNodes,
+  reuseNodeExecution,
+  skipNodeExecution,
+  startNodeExecution,
+  waitNodeExecution,
+} from '@/features/executions/lib/execution-store';
+import { createNodeStatusPublisher } from '@/features/executions/lib/node-status';
+import { createNodeContext } from '@/features/executions/lib/node-context';
+import { prepareErrorWorkflow } from '@/features/executions/lib/error-workflow';
+import {
+  getExecutionSnapshot,
+  getNodeRunKey,
+  getReusableNodeRuns,
+} from '@/features/executions/lib/retry';
+import {
+  getStepSourceRuns,
+  PARTIAL_EXECUTION_MODES,
+  PartialExecutionError,
+  type PartialExecutionMode,
+} from '@/features/executions/lib/partial-execution';
+import { getPinnedItems } from '@/features/executions/lib/pinned-data';
+import { isWaitForEitherMerge } from '@/features/executions/lib/merge';
+import { toReactFlowGraph } from '@/features/workflows/lib/react-flow';
+import { getVariableNames } from '@/features/workflows/lib/variable-names';
+import {
+  getReachableNodeIds,
+  validateWorkflowGraph,
+  WorkflowValidationError,
+} from '@/features/workflows/lib/validation';
+import {
+  createAttemptTimeout,
+  isTimeoutError,
+  isWorkflowTimeoutError,
+  WorkflowTimeoutError,
+  type WorkflowDeadline,
+} from '@/features/executions/lib/timeouts';
+import {
+  emitError,
+  getNodeSettings,
+  getRetryDelay,
+  isNonRetriableError,
+} from '@/features/executions/lib/node-settings';
+import {
+  appendOutputs,
+  emitOutput,
+  getOutputItems,
+} from '@/features/executions/lib/outputs';
+import type {
+  NodeExecutionResult,
+  NodeOutputs,
+  WorkflowItem,
+} from '@/features/executions/types';
+import {
+  NODE_HANDLES,
+  RUN_ONCE_NODE_TYPES,
+  SUBGRAPH_OUTPUTS,
+} from '@/config/constants';
+import {
+  ExecutionStatus,
+  NodeExecutionStatus,
+  NodeType,
+} from '@/lib/generated/prisma/enums';
 
 export const executeWorkflow = inngest.createFunction(
-  { id: 'execute-workflow' },
+  {
+    id: 'execute-workflow',
+    // Sent by `executions.cancel`, which also records the cancellation
+    cancelOn: [
+      { event: 'workflow/cancel.execution', match: 'data.executionId' },
+    ],
+    onFailure: async ({ event, error, step }) => {
+      const executionId = event.data.event.data.executionId;
+
+      if (!executionId) {
+        return;
+      }
+
+      await step.run('fail-execution', async () => {
+        return completeExecution({
+          executionId,
+          status: ExecutionStatus.ERROR,
+          error,
+        });
+      });
+
+      const errorWorkflow = await step.run(
+        'prepare-error-workflow',
+        async () => {
+          return prepareErrorWorkflow({ executionId, error });
+        }
+      );
+
+      if (!errorWorkflow) {
+        return;
+      }
+
+      await step.sendEvent('trigger-error-workflow', {
+        name: 'workflow/execute.workflow',
+        data: {
+          workflowId: errorWorkflow.workflowId,
+          executionId: errorWorkflow.executionId,
+          triggerType: NodeType.ERROR_TRIGGER,
+          initialData: errorWorkflow.initialData,
+        },
+      });
+    },
+  },
   { event: 'workflow/execute.workflow' },
-  async ({ event, step }) => {
+  async ({ event, step, publish }) => {
     const workflowId = event.data.workflowId;
+    const executionId = event.data.executionId;
 
     if (!workflowId) {
       throw new NonRetriableError('Workflow ID is missing');
     }
 
-    const sortedNodes = await step.run('prepare-workflow', async () => {
-      const workflow = await prisma.workflow.findUniqueOrThrow({
-        where: { id: workflowId },
-        include: {
-          nodes: true,
-          connections: true,
+    if (!executionId) {
+      throw new NonRetriableError('Execution ID is missing');
+    }
+
+    const triggerType: NodeType =
+      event.data.triggerType ?? NodeType.MANUAL_TRIGGER;
+
+    // Sent by `executions.retry` to resume a failed execution
+    const retryOfExecutionId: string | null =
+      event.data.retryOfExecutionId ?? null;
+
+    // Sent by `workflows.executeNode` to run a single step, or a step and the
+    // nodes before it
+    const partialExecution: {
+      nodeId: string;
+      mode: PartialExecutionMode;
+    } | null = event.data.partialExecution ?? null;
+
+    const execution = await step.run('create-execution', async () => {
+      return prisma.execution.upsert({
+        where: { id: executionId },
+        create: {
+          id: executionId,
+          workflowId,
+          triggerType,
+          inngestEventId: event.id,
+          // Sent by Execute Workflow nodes starting a sub-workflow
+          parentExecutionId: event.data.parentExecutionId ?? null,
+          parentNodeId: event.data.parentNodeId ?? null,
+          retryOfExecutionId,
+          partialNodeId: partialExecution?.nodeId ?? null,
+          partialMode: partialExecution?.mode ?? null,
         },
+        // Retries are created by `executions.retry` before they are sent
+        update: { inngestEventId: event.id },
+      });
+    });
+
+    const { nodes, connections, maxParallelism, timeoutSeconds } =
+      await step.run('prepare-workflow', async () => {
+        const workflow = await prisma.workflow.findUniqueOrThrow({
+          where: { id: workflowId },
+          include: {
+            nodes: true,
+            connections: true,
+          },
+        });
+
+        // A retry runs the graph of the failed execution, unless asked to
+        // pick up the changes saved since
+        const snapshot =
+          retryOfExecutionId && !event.data.useCurrentVersion
+            ? await getExecutionSnapshot(retryOfExecutionId)
+            : null;
+
+        if (snapshot) {
+          workflow.nodes = snapshot.nodes;
+          workflow.connections = snapshot.connections;
+        }
+
+        const { edges } = toReactFlowGraph(
+          workflow.nodes,
+          workflow.connections
+        );
+
+        // Saves are validated, but workflows saved before that may be invalid
+        const issues = validateWorkflowGraph(workflow.nodes, edges);
+
+        if (issues.length > 0) {
+          throw new NonRetriableError(
+            new WorkflowValidationError(issues).message
+          );
+        }
+
+        // Keep the graph as it was executed, later saves must not rewrite history
+        await prisma.execution.update({
+          where: { id: executionId },
+          data: {
+            workflowSnapshot: toJsonValue({
+              nodes: workflow.nodes,
+              connections: workflow.connections,
+            }),
+          },
+        });
+
+        // Node executions keep the variable name of their node. Nodes saved
+        // before names existed get their default one.
+        const variableNames = getVariableNames(workflow.nodes);
+
+        for (const node of workflow.nodes) {
+          node.name = variableNames.get(node.id)!;
+        }
+
+        // Only the part of the graph the firing trigger leads to runs, or the
+        // step that is executed and the nodes before it
+        const reachable = partialExecution
+          ? new Set([
+              partialExecution.nodeId,
+              ...getUpstreamNodeIds(
+                partialExecution.nodeId,
+                workflow.connections
+              ),
+            ])
+          : getReachableNodeIds(
+              workflow.nodes
+                .filter((node) => node.type === triggerType)
+                .map((node) => node.id),
+              edges
+            );
+        const nodes = workflow.nodes.filter((node) => reachable.has(node.id));
+        const connections = workflow.connections.filter(
+          (connection) =>
+            reachable.has(connection.fromNodeId) &&
+            reachable.has(connection.toNodeId)
+        );
+
+        if (partialExecution) {
+          if (!nodes.some((node) => node.id === partialExecution.nodeId)) {
+            throw new NonRetriableError('The node to execute does not exist');
+          }
+
+          // The loop would be reused and never run its body
+          if (
+            partialExecution.mode === PARTIAL_EXECUTION_MODES.STEP &&
+            getSubgraphNodeIds(nodes, connections).has(partialExecution.nodeId)
+          ) {
+            throw new NonRetriableError(
+              'Nodes inside a loop cannot run on their own, execute up to this step instead'
+            );
+          }
+        } else {
+          await recordNotExecutedNodes({
+            executionId,
+            nodes: workflow.nodes.filter(
+              (node) =>
+                !reachable.has(node.id) && node.type !== NodeType.INITIAL
+            ),
+          });
+        }
+
+        return {
+          nodes: topologicalSort(nodes, connections),
+          connections,
+          maxParallelism: workflow.maxParallelism,
+          timeoutSeconds: workflow.timeoutSeconds,
+        };
       });
-      return topologicalSort(workflow.nodes, workflow.connections);
+
+    // Runs that succeeded in the retried execution are not run again, nor
+    // are the nodes before a single step. Maps runs to the execution their
+    // output is copied from.
+    const reusableRuns = new Map(
+      retryOfExecutionId
+        ? await step.run('prepare-retry', async () => {
+            return getReusableNodeRuns({
+              executionId: retryOfExecutionId,
+              nodes,
+            });
+          })
+        : partialExecution?.mode === PARTIAL_EXECUTION_MODES.STEP
+          ? await step.run('prepare-step', async () => {
+              try {
+                return await getStepSourceRuns({
+                  workflowId,
+                  nodes: nodes.filter(
+                    (node) => node.id !== partialExecution.nodeId
+                  ),
+                });
+              } catch (error) {
+                if (error instanceof PartialExecutionError) {
+                  throw new NonRetriableError(error.message);
+                }
+                throw error;
+              }
+            })
+          : []
+    );
+
+    // Counted from the start of the execution, replays see the same deadline
+    const deadline: WorkflowDeadline | null = timeoutSeconds
+      ? {
+          at: new Date(execution.startedAt).getTime() + timeoutSeconds * 1000,
+          timeoutSeconds,
+        }
+      : null;
+
+    const publishNodeStatus = createNodeStatusPublisher({
+      workflowId,
+      publish,
     });
 
-    // Initialize the context with any initial data from the trigger
-    let context = event.data.initialData || {};
+    // The trigger starts with the items sent by an Execute Workflow node, or
+    // one item of initial data
+    const initialItems: WorkflowItem[] = event.data.initialItems ?? [
+      { json: event.data.initialData || {} },
+    ];
+
+    // How many times each node ran so far, nodes inside a loop run once per
+    // batch. Nodes are started in a fixed order, so replays number them alike.
+    const runCounts = new Map<string, number>();
+
+    // Each node only sees the items delivered to it, so nodes of the same
+    // level can run side by side without sharing state. `outputsByNode` holds
+    // the items emitted by every node that ran, keyed by output handle.
+    const runNode = async (
+      node: (typeof nodes)[number],
+      outputsByNode: Map<string, NodeOutputs>
+    ) => {
+      const runIndex = runCounts.get(node.id) ?? 0;
+      runCounts.set(node.id, runIndex + 1);
+
+      // Later runs need fresh step ids, the earlier ones are memoized
+      const runSuffix = runIndex > 0 ? `:run-${runIndex}` : '';
+      const runStep = runIndex > 0 ? scopeStepTools(step, runSuffix) : step;
+      const target = {
+        executionId,
+        node: { ...node, type: node.type as NodeType },
+        runIndex,
+      };
+
+      // Nodes before the executed step emit their pinned data
+      const pinnedItems =
+        partialExecution && node.id !== partialExecution.nodeId
+          ? getPinnedItems(node.data)
+          : undefined;
+
+      if (pinnedItems) {
+        const { outputs } = emitOutput(pinnedItems);
+
+        await step.run(`pin-node:${node.id}${runSuffix}`, async () => {
+          await publishNodeStatus({
+            executionId,
+            nodeId: node.id,
+            status: 'success',
+            itemCount: pinnedItems.length,
+          });
+
+          return pinNodeExecution({ ...target, output: toJsonValue(outputs) });
+        });
+
+        outputsByNode.set(node.id, outputs);
+        return;
+      }
+
+      const sourceExecutionId = reusableRuns.get(
+        getNodeRunKey(node.id, runIndex)
+      );
+
+      if (sourceExecutionId) {
+        const reused = await step.run(
+          `reuse-node:${node.id}${runSuffix}`,
+          async () => {
+            const nodeExecution = await reuseNodeExecution({
+              ...target,
+              sourceExecutionId,
+            });
+            const outputs = nodeExecution.output as unknown as NodeOutputs;
+
+            await publishNodeStatus({
+              executionId,
+              nodeId: node.id,
+              status: 'success',
+              itemCount: getOutputItems(outputs).length,
+            });
+
+            return outputs;
+          }
+        );
+
+        outputsByNode.set(node.id, reused);
+        return;
+      }
+
+      const incoming = connections.filter(
+        (connection) => connection.toNodeId === node.id
+      );
+
+      // Nodes without incoming connections start from the trigger items,
+      // others only run when an upstream node emitted items on a connected
+      // output
+      const inputs: Record<string, WorkflowItem[]> = {};
+
+      if (incoming.length === 0) {
+        inputs[NODE_HANDLES.MAIN_INPUT] = initialItems;
+      }
+
+      for (const connection of incoming) {
+        const output = outputsByNode.get(connection.fromNodeId)?.[
+          normalizeOutputHandle(connection.fromOutput)
+        ];
+
+        if (output?.length) {
+          const input = normalizeInputHandle(connection.toInput);
+          inputs[input] = [...(inputs[input] ?? []), ...output];
+        }
+      }
 
-    // Execute each node
-    for (const node of sortedNodes) {
+      const items = Object.values(inputs).flat();
+
+      if (items.length === 0) {
+        await step.run(`skip-node:${node.id}${runSuffix}`, async () => {
+          return skipNodeExecution(target);
+        });
+        return;
+      }
+
+      // Outputs of the upstream nodes that ran, in the order they ran
+      const upstream = getUpstreamNodeIds(node.id, connections);
+      const upstreamOutputs = new Map(
+        nodes
+          .filter(
+            (candidate) =>
+              upstream.has(candidate.id) && outputsByNode.has(candidate.id)
+          )
+          .map((candidate) => [
+            candidate.name,
+            outputsByNode.get(candidate.id)!,
+          ])
+      );
       const executor = getExecutor(node.type as NodeType);
-      context = await executor({
-        data: node.data as Record<string, unknown>,
-        nodeId: node.id,
-        context,
-        step,
+
+      // Statuses are published from within the bookkeeping steps so that
+      // replays of the function do not publish them again. The deadline is
+      // checked there too, replays of nodes that already started skip it.
+      await step.run(`start-node:${node.id}${runSuffix}`, async () => {
+        if (deadline && Date.now() >= deadline.at) {
+          throw new WorkflowTimeoutError(deadline.timeoutSeconds);
+        }
+
+        await publishNodeStatus({
+          executionId,
+          nodeId: node.id,
+          status: 'loading',
+        });
+
+        return startNodeExecution({ ...target, input: toJsonValue(items) });
       });
-    }
+
+      const runSubgraph = (output: string, subgraphItems: WorkflowItem[]) => {
+        if (!SUBGRAPH_OUTPUTS[node.type]?.includes(output)) {
+          throw new NonRetriableError(
+            `"${output}" is not a subgraph output of ${node.type} nodes`
+          );
+        }
+
+        const subgraph = getSubgraphNodeIds(
+          [node],
+          connections.filter(
+            (connection) =>
+              connection.fromNodeId !== node.id ||
+              normalizeOutputHandle(connection.fromOutput) === output
+          )
+        );
+
+        // The subgraph sees what ran before the node, and this output's items
+        const subgraphOutputs = new Map(outputsByNode);
+        subgraphOutputs.set(node.id, { [output]: subgraphItems });
+
+        return runGraph(
+          nodes.filter((candidate) => subgraph.has(candidate.id)),
+          subgraphOutputs
+        );
+      };
+
+      const settings = getNodeSettings(node.data);
+      const result: NodeExecutionResult = { outputs: {} };
+
+      // One call per item, or a single call with all of them
+      const calls =
+        settings.runOnceForAllItems ||
+        RUN_ONCE_NODE_TYPES.includes(node.type as NodeType)
+          ? [items]
+          : items.map((item) => [item]);
+
+      // Every call is retried on its own, so the items that already
+      // succeeded keep their memoized steps and never run twice
+      const runCall = async (callItems: WorkflowItem[], itemIndex: number) => {
+        // Every item needs its own step ids
+        const itemSuffix = itemIndex > 0 ? `:item-${itemIndex}` : '';
+        const callStep =
+          itemIndex > 0 ? scopeStepTools(runStep, itemSuffix) : runStep;
+
+        for (let attempt = 0; ; attempt++) {
+          // Retries need fresh step ids, the failed ones are memoized
+          const attemptStep =
+            attempt === 0
+              ? callStep
+              : scopeStepTools(callStep, `:retry-${attempt}`);
+
+          // The node timeout counts from the start of the attempt, which
+          // replays must see unchanged
+          const attemptStartedAt =
+            settings.timeoutSeconds > 0
+              ? await attemptStep.run(`start-attempt:${node.id}`, async () =>
+                  Date.now()
+                )
+              : Date.now();
+          const timeout = createAttemptTimeout({
+            nodeTimeoutSeconds: settings.timeoutSeconds,
+            startedAt: attemptStartedAt,
+            deadline,
+          });
+
+          try {
+            return await executor({
+              data: node.data as Record<string, unknown>,
+              nodeId: node.id,
+              executionId,
+              runIndex,
+              context: createNodeContext({
+                items,
+                itemIndex,
+                runIndex,
+                upstreamOutputs,
+              }),
+              items: callItems,
+              itemIndex,
+              inputs,
+              step: withStepTimeout(attemptStep, timeout),
+              publish: (status) =>
+                publishNodeStatus({ executionId, nodeId: node.id, status }),
+              signal: timeout.signal,
+              deadline: deadline ? new Date(deadline.at) : null,
+              runSubgraph,
+              markWaiting: async (resumeAt) => {
+                // Waiting past the deadline fails now instead of once it ends
+                if (deadline && resumeAt.getTime() > deadline.at) {
+                  throw new WorkflowTimeoutError(deadline.timeoutSeconds);
+                }
+
+                await waitNodeExecution({
+                  executionId,
+                  nodeId: node.id,
+                  runIndex,
+                  resumeAt,
+                });
+              },
+            });
+          } catch (error) {
+            if (
+              attempt < settings.retry.maxRetries &&
+              !isNonRetriableError(error) &&
+              !isWorkflowTimeoutError(error)
+            ) {
+              const delay = getRetryDelay(settings.retry, attempt + 1);
+
+              if (delay > 0) {
+                await step.sleep(
+                  `retry-node:${node.id}${runSuffix}${itemSuffix}:${attempt + 1}`,
+                  `${delay}s`
+                );
+              }
+              continue;
+            }
+
+            throw error;
+          }
+        }
+      };
+
+      try {
+        for (const [itemIndex, callItems] of calls.entries()) {
+          const callResult = await runCall(callItems, itemIndex);
+
+          appendOutputs(result.outputs, callResult.outputs);
+        }
+      } catch (error) {
+        // Running out of workflow time fails the run whatever the settings
+        const handled =
+          (settings.continueOnFail || settings.errorOutput) &&
+          !isWorkflowTimeoutError(error);
+        const errorResult = emitError(settings, items, error);
+
+        await step.run(`fail-node:${node.id}${runSuffix}`, async () => {
+          await publishNodeStatus({
+            executionId,
+            nodeId: node.id,
+            status: 'error',
+          });
+
+          return completeNodeExecution({
+            executionId,
+            nodeId: node.id,
+            runIndex,
+            status: isTimeoutError(error)
+              ? NodeExecutionStatus.TIMED_OUT
+              : NodeExecutionStatus.ERROR,
+            output: handled ? toJsonValue(errorResult.outputs) : undefined,
+            error,
+          });
+        });
+
+        // The node retries are over, retrying the function would only replay
+        // the failure
+        if (!handled) {
+          throw error instanceof NonRetriableError
+            ? error
+            : new NodeStepError(error);
+        }
+
+        // The error is routed downstream and the run goes on
+        outputsByNode.set(node.id, errorResult.outputs);
+        return;
+      }
+
+      outputsByNode.set(node.id, result.outputs);
+
+      await step.run(`finish-node:${node.id}${runSuffix}`, async () => {
+        await publishNodeStatus({
+          executionId,
+          nodeId: node.id,
+          status: 'success',
+          itemCount: getOutputItems(result.outputs).length,
+        });
+
+        return completeNodeExecution({
+          executionId,
+          nodeId: node.id,
+          runIndex,
+          status: NodeExecutionStatus.SUCCESS,
+          output: toJsonValue(result.outputs),
+        });
+      });
+    };
+
+    /**
+     * Run topologically sorted nodes, at most `maxParallelism` at a time, and
+     * return the items that reached the end of them. A node starts once every
+     * node it is connected from finished, a merge waiting for either input as
+     * soon as one of them emitted items to it. Nodes inside the subgraph of
+     * another node are left to it.
+     */
+    const runGraph = async (
+      graphNodes: typeof nodes,
+      outputsByNode: Map<string, NodeOutputs>
+    ): Promise<WorkflowItem[]> => {
+      const nested = getSubgraphNodeIds(graphNodes, connections);
+      const scheduled = graphNodes.filter((node) => !nested.has(node.id));
+      const scheduledIds = new Set(scheduled.map((node) => node.id));
+
+      const started = new Set<string>();
+      const finished = new Set<string>();
+      const running = new Set<Promise<void>>();
+      // Errors of the nodes that failed, in the order they failed
+      const failures: unknown[] = [];
+
+      const isReady = (node: (typeof nodes)[number]) => {
+        const incoming = connections.filter(
+          (connection) =>
+            connection.toNodeId === node.id &&
+            scheduledIds.has(connection.fromNodeId)
+        );
+
+        if (
+          incoming.every((connection) => finished.has(connection.fromNodeId))
+        ) {
+          return true;
+        }
+
+        return (
+          isWaitForEitherMerge(node) &&
+          incoming.some(
+            (connection) =>
+              finished.has(connection.fromNodeId) &&
+              !!outputsByNode.get(connection.fromNodeId)?.[
+                normalizeOutputHandle(connection.fromOutput)
+              ]?.length
+          )
+        );
+      };
+
+      // Nodes are sorted, so ready nodes start in the same order on every
+      // replay. Inngest replays steps in the order they completed, so a merge
+      // waiting for either input sees the same input arrive first.
+      const startReadyNodes = () => {
+        for (const node of scheduled) {
+          if (failures.length > 0 || running.size >= maxParallelism) {
+            return;
+          }
+
+          if (started.has(node.id) || !isReady(node)) {
+            continue;
+          }
+
+          started.add(node.id);
+
+          const run: Promise<void> = runNode(node, outputsByNode)
+            .then(
+              () => {
+                finished.add(node.id);
+              },
+              (reason) => {
+                failures.push(reason);
+              }
+            )
+            .finally(() => {
+              running.delete(run);
+            });
+
+          running.add(run);
+        }
+      };
+
+      startReadyNodes();
+
+      while (running.size > 0) {
+        await Promise.race(running);
+        startReadyNodes();
+      }
+
+      // Nodes that were running are allowed to finish and record their
+      // result first
+      if (failures.length > 0) {
+        throw failures[0];
+      }
+
+      // Nodes not connected to another scheduled node are the end of it
+      const sourceNodeIds = new Set(
+        connections
+          .filter((connection) => scheduledIds.has(connection.toNodeId))
+          .map((connection) => connection.fromNodeId)
+      );
+
+      return scheduled
+        .filter((node) => !sourceNodeIds.has(node.id))
+        .flatMap((node) => getOutputItems(outputsByNode.get(node.id) ?? {}));
+    };
+
+    // The result of the run is the items that reached the end of the graph
+    const result = await runGraph(nodes, new Map());
+
+    await step.run('finish-execution', async () => {
+      return completeExecution({
+        executionId,
+        status: ExecutionStatus.SUCCESS,
+        output: toJsonValue(result),
+      });
+    });
 
     return {
       workflowId,
-      result: context,
+      executionId,
+      result,
     };
   }
 );
@@ -1,5 +1,9 @@
 import toposort from 'toposort';
-import { Connection, Node } from '@/lib/generated/prisma/client';
+import { NonRetriableError } from 'inngest';
+import { Connection, Node, Prisma } from '@/lib/generated/prisma/client';
+import { NODE_HANDLES, SUBGRAPH_OUTPUTS } from '@/config/constants';
+import type { StepTools } from '@/features/executions/types';
+import type { AttemptTimeout } from '@/features/executions/lib/timeouts';
 
 export const topologicalSort = (
   nodes: Node[],
@@ -47,3 +51,182 @@ export const topologicalSort = (
   const nodeMap = new Map(nodes.map((n) => [n.id, n]));
   return sortedNodeIds.map((id) => nodeMap.get(id)!).filter(Boolean);
 };
+
+/**
+ * Normalize arbitrary workflow data into something Prisma can store in a
+ * Json column (drops `undefined`, serializes dates, etc.)
+ */
+export const toJsonValue = (value: unknown): Prisma.InputJsonValue => {
+  return JSON.parse(JSON.stringify(value ?? {}));
+};
+
+/**
+ * Map the output handle stored on a connection to the handle executors emit
+ * on. Connections saved before handles existed use `main`.
+ */
+export const normalizeOutputHandle = (fromOutput: string) => {
+  return fromOutput === 'main' ? NODE_HANDLES.MAIN_OUTPUT : fromOutput;
+};
+
+/**
+ * Same as `normalizeOutputHandle`, for the input handle of a connection
+ */
+export const normalizeInputHandle = (toInput: string) => {
+  return toInput === 'main' ? NODE_HANDLES.MAIN_INPUT : toInput;
+};
+
+/**
+ * Nodes that run as a subgraph of another node: everything reachable from
+ * the `SUBGRAPH_OUTPUTS` of the given nodes
+ */
+export const getSubgraphNodeIds = (
+  nodes: Pick<Node, 'id' | 'type'>[],
+  connections: Pick<Connection, 'fromNodeId' | 'fromOutput' | 'toNodeId'>[]
+) => {
+  const subgraph = new Set<string>();
+  const queue: string[] = [];
+
+  for (const node of nodes) {
+    const outputs = SUBGRAPH_OUTPUTS[node.type] ?? [];
+
+    for (const connection of connections) {
+      if (
+        connection.fromNodeId === node.id &&
+        outputs.includes(normalizeOutputHandle(connection.fromOutput)) &&
+        !subgraph.has(connection.toNodeId)
+      ) {
+        subgraph.add(connection.toNodeId);
+        queue.push(connection.toNodeId);
+      }
+    }
+  }
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+
+    for (const connection of connections) {
+      if (
+        connection.fromNodeId === nodeId &&
+        !subgraph.has(connection.toNodeId)
+      ) {
+        subgraph.add(connection.toNodeId);
+        queue.push(connection.toNodeId);
+      }
+    }
+  }
+
+  return subgraph;
+};
+
+/**
+ * Nodes the given node can be reached from by following connections, the
+ * ones whose output it may read
+ */
+export const getUpstreamNodeIds = (
+  nodeId: string,
+  connections: Pick<Connection, 'fromNodeId' | 'toNodeId'>[]
+) => {
+  const upstream = new Set<string>();
+  const queue = [nodeId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    for (const connection of connections) {
+      if (
+        connection.toNodeId === current &&
+        !upstream.has(connection.fromNodeId)
+      ) {
+        upstream.add(connection.fromNodeId);
+        queue.push(connection.fromNodeId);
+      }
+    }
+  }
+
+  return upstream;
+};
+
+/**
+ * Suffix the id of every step created through `step`, so that retrying a node
+ * runs its steps again instead of replaying the memoized failure
+ */
+export const scopeStepTools = (step: StepTools, suffix: string): StepTools => {
+  return new Proxy(step, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      return (idOrOptions: unknown, ...args: unknown[]) => {
+        const scoped =
+          typeof idOrOptions === 'string'
+            ? `${idOrOptions}${suffix}`
+            : idOrOptions &&
+                typeof idOrOptions === 'object' &&
+                'id' in idOrOptions
+              ? { ...idOrOptions, id: `${idOrOptions.id}${suffix}` }
+              : idOrOptions;
+
+        return value.call(target, scoped, ...args);
+      };
+    },
+  });
+};
+
+/**
+ * Failure of a node. The engine retries the node with its own retry settings,
+ * so Inngest must not retry it as well: the error extends `NonRetriableError`
+ * for Inngest, but keeps the name the engine decides on.
+ */
+export class NodeStepError extends NonRetriableError {
+  constructor(error: unknown) {
+    const cause = error instanceof Error ? error : new Error(String(error));
+
+    super(cause.message, { cause });
+    this.name = cause.name;
+    this.stack = cause.stack;
+  }
+}
+
+/**
+ * Run the `step.run` callbacks of a node attempt against its timeout. The
+ * step fails with the timeout error, whether or not the callback listens to
+ * the signal. Failed steps are left to the node retries, see `NodeStepError`.
+ */
+export const withStepTimeout = (
+  step: StepTools,
+  timeout: AttemptTimeout
+): StepTools => {
+  return new Proxy(step, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+
+      if (property !== 'run' || typeof value !== 'function') {
+        return value;
+      }
+
+      return (
+        idOrOptions: unknown,
+        fn: (...args: unknown[]) => unknown,
+        ...input: unknown[]
+      ) => {
+        return value.call(
+          target,
+          idOrOptions,
+          async (...args: unknown[]) => {
+            try {
+              return await timeout.run(async () => fn(...args));
+            } catch (error) {
+              throw error instanceof NonRetriableError
+                ? error
+                : new NodeStepError(error);
+            }
+          },
+          ...input
+        );
+      };
+    },
+  });
+};
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ExecutionStatus" AS ENUM ('RUNNING', 'SUCCESS', 'ERROR', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "NodeExecutionStatus" AS ENUM ('RUNNING', 'SUCCESS', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "Execution" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "status" "ExecutionStatus" NOT NULL DEFAULT 'RUNNING',
+    "triggerType" "NodeType" NOT NULL,
+    "inngestEventId" TEXT,
+    "error" TEXT,
+    "errorStack" TEXT,
+    "output" JSONB,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Execution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NodeExecution" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "nodeName" TEXT NOT NULL,
+    "nodeType" "NodeType" NOT NULL,
+    "status" "NodeExecutionStatus" NOT NULL DEFAULT 'RUNNING',
+    "input" JSONB,
+    "output" JSONB,
+    "error" TEXT,
+    "errorStack" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "NodeExecution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Execution_workflowId_startedAt_idx" ON "Execution"("workflowId", "startedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NodeExecution_executionId_nodeId_key" ON "NodeExecution"("executionId", "nodeId");
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NodeExecution" ADD CONSTRAINT "NodeExecution_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "Execution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN     "durationMs" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Execution_status_idx" ON "Execution"("status");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Workflow" ADD COLUMN     "maxParallelism" INTEGER NOT NULL DEFAULT 4;
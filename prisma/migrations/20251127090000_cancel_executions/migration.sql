@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "NodeExecutionStatus" ADD VALUE 'CANCELLED';
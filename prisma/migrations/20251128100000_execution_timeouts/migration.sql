@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NodeExecutionStatus" ADD VALUE 'TIMED_OUT';
+
+-- AlterTable
+ALTER TABLE "Workflow" ADD COLUMN     "timeoutSeconds" INTEGER;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'LOOP_OVER_ITEMS';
+
+-- DropIndex
+DROP INDEX "NodeExecution_executionId_nodeId_key";
+
+-- AlterTable
+ALTER TABLE "NodeExecution" ADD COLUMN     "runIndex" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NodeExecution_executionId_nodeId_runIndex_key" ON "NodeExecution"("executionId", "nodeId", "runIndex");
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "NodeExecutionStatus" ADD VALUE 'WAITING';
+
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'WAIT';
+
+-- AlterTable
+ALTER TABLE "NodeExecution" ADD COLUMN     "resumeAt" TIMESTAMP(3);
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'EXECUTE_WORKFLOW';
+ALTER TYPE "NodeType" ADD VALUE 'EXECUTE_WORKFLOW_TRIGGER';
+
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN     "parentExecutionId" TEXT,
+ADD COLUMN     "parentNodeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Execution_parentExecutionId_idx" ON "Execution"("parentExecutionId");
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_parentExecutionId_fkey" FOREIGN KEY ("parentExecutionId") REFERENCES "Execution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
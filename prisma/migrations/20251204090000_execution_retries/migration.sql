@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN     "retryOfExecutionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "NodeExecution" ADD COLUMN     "reused" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Execution_retryOfExecutionId_idx" ON "Execution"("retryOfExecutionId");
+
+-- AddForeignKey
+ALTER TABLE "Execution" ADD CONSTRAINT "Execution_retryOfExecutionId_fkey" FOREIGN KEY ("retryOfExecutionId") REFERENCES "Execution"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Execution" ALTER COLUMN "durationMs" SET DATA TYPE BIGINT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Execution" ADD COLUMN     "partialMode" TEXT,
+ADD COLUMN     "partialNodeId" TEXT;
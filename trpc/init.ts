@@ -19,6 +19,22 @@ const t = initTRPC.create({
    * @see https://trpc.io/docs/server/data-transformers
    */
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    const cause: unknown = error.cause;
+
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Structured issues carried by the error behind the failure, e.g. the
+        // graph issues of a rejected save, for the client to highlight
+        issues:
+          cause && typeof cause === 'object' && 'issues' in cause
+            ? (cause.issues as unknown[])
+            : null,
+      },
+    };
+  },
 });
 // Base router and procedure helpers
 export const createTRPCRouter = t.router;
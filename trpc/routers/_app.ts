@@ -1,8 +1,12 @@
 import { createTRPCRouter } from '../init';
 import { workflowsRouter } from '@/features/workflows/server/routers';
+import { executionsRouter } from '@/features/executions/server/routers';
+import { approvalsRouter } from '@/features/approvals/server/routers';
 
 export const appRouter = createTRPCRouter({
   workflows: workflowsRouter,
+  executions: executionsRouter,
+  approvals: approvalsRouter,
 });
 // export type definition of API
 export type AppRouter = typeof appRouter;